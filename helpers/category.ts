@@ -0,0 +1,24 @@
+import { ICategory, ICategoryTree } from "../types/general";
+
+// fields of categories that users can sort by
+export const CATEGORY_SORT_FIELDS = ["_id", "name", "slug", "createdAt", "updatedAt"];
+
+// build nested category tree from flat list of categories
+export function buildCategoryTree(categories: ICategory[]): ICategoryTree[] {
+    const nodes = new Map<string, ICategoryTree>();
+    const roots: ICategoryTree[] = [];
+
+    // create node for every category
+    for (const category of categories) {
+        nodes.set(category._id.toString(), { ...category, children: [] });
+    }
+
+    // attach every node to its mother (categories with missing mother become roots)
+    for (const node of nodes.values()) {
+        const mother = node.mother ? nodes.get(node.mother.toString()) : undefined;
+        if (mother) mother.children.push(node);
+        else roots.push(node);
+    }
+
+    return roots;
+}
@@ -0,0 +1,37 @@
+// fields of comments that users can filter by
+export const COMMENT_FILTER_FIELDS = ["document", "user", "parent", "state", "createdAt"];
+
+// fields of comments that users can set on create (author and state are set by server)
+export const COMMENT_CREATE_FIELDS = ["title", "body", "document", "parent"];
+
+// fields of comments that can be changed with edit (other fields are set by moderation and reactions)
+export const COMMENT_EDITABLE_FIELDS = ["title", "body", "state"];
+
+// fields of comments that users can sort by
+export const COMMENT_SORT_FIELDS = ["createdAt", "updatedAt", "score", "rank"];
+
+// reaction that counts as negative vote (every other reaction counts as positive)
+export const DOWN_VOTE = "down";
+
+// z-score for 95% confidence
+const Z = 1.96;
+
+// lower bound of wilson score confidence interval (used for "best" sorting)
+export function wilsonScore(positive: number, total: number) {
+    if (!total) return 0;
+
+    const phat = positive / total;
+    return (phat + (Z * Z) / (2 * total) - Z * Math.sqrt((phat * (1 - phat) + (Z * Z) / (4 * total)) / total)) / (1 + (Z * Z) / total);
+}
+
+// calculate score and rank of comment from number of each reaction
+export function reactionStats(counts: Record<string, number>) {
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const negative = counts[DOWN_VOTE] ?? 0;
+    const positive = total - negative;
+
+    return {
+        score: positive - negative,
+        rank: wilsonScore(positive, total),
+    };
+}
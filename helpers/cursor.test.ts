@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { cursorFilter, decodeCursor, encodeCursor, parseSort, toMongoSort, withTieBreaker } from "./cursor";
+
+describe("parseSort", () => {
+    it("converts sort fields to directions", () => {
+        assert.deepEqual(parseSort(["-createdAt", "+title", " price ", ""]), [
+            ["createdAt", -1],
+            ["title", 1],
+            ["price", 1],
+        ]);
+    });
+});
+
+describe("withTieBreaker", () => {
+    it("adds _id with direction of first field", () => {
+        assert.deepEqual(withTieBreaker([["createdAt", -1]]), [
+            ["createdAt", -1],
+            ["_id", -1],
+        ]);
+        assert.deepEqual(withTieBreaker([]), [["_id", 1]]);
+    });
+
+    it("keeps spec that has _id", () => {
+        const spec: [string, 1 | -1][] = [["_id", -1]];
+        assert.equal(withTieBreaker(spec), spec);
+    });
+});
+
+describe("toMongoSort", () => {
+    it("converts spec to sort object and reverses it", () => {
+        const spec = parseSort(["-createdAt", "_id"]);
+        assert.deepEqual(toMongoSort(spec), { createdAt: -1, _id: 1 });
+        assert.deepEqual(toMongoSort(spec, true), { createdAt: 1, _id: -1 });
+    });
+});
+
+describe("encodeCursor/decodeCursor", () => {
+    const spec = parseSort(["-price", "_id"]);
+
+    it("round trips values of document", () => {
+        const cursor = encodeCursor({ price: 10, _id: "a", title: "ignored" }, spec, "next");
+        assert.deepEqual(decodeCursor(cursor, spec), { values: [10, "a"], direction: "next" });
+    });
+
+    it("reads values of mongoose documents with get", () => {
+        const doc = { get: (field: string) => ({ price: 5, _id: "b" })[field] };
+        assert.deepEqual(decodeCursor(encodeCursor(doc, spec, "prev"), spec)?.values, [5, "b"]);
+    });
+
+    it("rejects invalid cursors", () => {
+        const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+        assert.equal(decodeCursor("not json", spec), null);
+        assert.equal(decodeCursor(encode({ values: [1], direction: "next" }), spec), null);
+        assert.equal(decodeCursor(encode({ values: [1, "a"], direction: "up" }), spec), null);
+    });
+});
+
+describe("cursorFilter", () => {
+    const spec = parseSort(["-price", "_id"]);
+
+    it("selects documents after cursor", () => {
+        assert.deepEqual(cursorFilter(spec, { values: [10, "a"], direction: "next" }), {
+            $or: [{ price: { $lt: 10 } }, { price: 10, _id: { $gt: "a" } }],
+        });
+    });
+
+    it("selects documents before cursor for prev pages", () => {
+        assert.deepEqual(cursorFilter(spec, { values: [10, "a"], direction: "prev" }), {
+            $or: [{ price: { $gt: 10 } }, { price: 10, _id: { $lt: "a" } }],
+        });
+    });
+});
@@ -0,0 +1,65 @@
+export type TSortSpec = [field: string, direction: 1 | -1][];
+
+export type TCursorDirection = "next" | "prev";
+
+interface ICursor {
+    values: unknown[];
+    direction: TCursorDirection;
+}
+
+// convert sort array (like ["-createdAt", "title"]) to sort spec
+export function parseSort(sort: string[]): TSortSpec {
+    return sort
+        .map((field) => field.trim())
+        .filter(Boolean)
+        .map((field) => (field.startsWith("-") ? [field.slice(1), -1] : [field.replace(/^\+/, ""), 1]));
+}
+
+// add _id as tie breaker so every document has unique position in sort
+export function withTieBreaker(spec: TSortSpec): TSortSpec {
+    if (spec.some(([field]) => field === "_id")) return spec;
+    return [...spec, ["_id", spec[0]?.[1] ?? 1]];
+}
+
+// convert sort spec to mongo sort object (reversed for prev pages)
+export function toMongoSort(spec: TSortSpec, reverse = false) {
+    return Object.fromEntries(spec.map(([field, direction]) => [field, reverse ? -direction : direction]));
+}
+
+// create opaque cursor from position of document in sort
+export function encodeCursor(doc: any, spec: TSortSpec, direction: TCursorDirection) {
+    const values = spec.map(([field]) => (typeof doc.get === "function" ? doc.get(field) : doc[field]));
+    const cursor: ICursor = { values, direction };
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, spec: TSortSpec): ICursor | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+        if (!Array.isArray(decoded?.values) || decoded.values.length !== spec.length) return null;
+        if (decoded.direction !== "next" && decoded.direction !== "prev") return null;
+        return decoded as ICursor;
+    } catch {
+        return null;
+    }
+}
+
+// create filter that selects documents after (or before for prev pages) cursor position
+export function cursorFilter(spec: TSortSpec, cursor: ICursor) {
+    const reverse = cursor.direction === "prev";
+
+    return {
+        $or: spec.map(([field, direction], index) => {
+            const condition: Record<string, unknown> = {};
+
+            // all previous sort fields are equal to cursor values
+            spec.slice(0, index).forEach(([prevField], prevIndex) => (condition[prevField] = cursor.values[prevIndex]));
+
+            // current sort field is after cursor value
+            const ascending = reverse ? direction === -1 : direction === 1;
+            condition[field] = { [ascending ? "$gt" : "$lt"]: cursor.values[index] };
+
+            return condition;
+        }),
+    };
+}
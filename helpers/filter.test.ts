@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EDocumentMSG } from "../messages/document";
+import { MAX_FILTER_DEPTH, parseFilter } from "./filter";
+
+describe("parseFilter", () => {
+    const fields = ["title", "price", "state"];
+
+    it("converts shorthand values to eq and in", () => {
+        assert.deepEqual(parseFilter({ title: "book", state: ["draft", "published"] }, fields).query, {
+            $and: [{ title: { $eq: "book" } }, { state: { $in: ["draft", "published"] } }],
+        });
+    });
+
+    it("returns empty query for empty filter", () => {
+        assert.deepEqual(parseFilter({}, fields).query, {});
+    });
+
+    it("converts operators and comma separated in values", () => {
+        const { query } = parseFilter({ price: { gte: 10, lt: 20 }, state: { in: "draft,published" } }, fields);
+        assert.deepEqual(query, { $and: [{ price: { $gte: 10, $lt: 20 } }, { state: { $in: ["draft", "published"] } }] });
+    });
+
+    it("converts exists from text", () => {
+        assert.deepEqual(parseFilter({ title: { exists: "false" } }, fields).query, { $and: [{ title: { $exists: false } }] });
+    });
+
+    it("escapes regex of user input", () => {
+        const { query } = parseFilter({ title: { regex: "a.b" } }, fields);
+        const regex: RegExp = query!.$and[0].title.$regex;
+        assert.equal(regex.test("a.b"), true);
+        assert.equal(regex.test("axb"), false);
+        assert.equal(regex.flags, "i");
+    });
+
+    it("combines and/or filters", () => {
+        const { query } = parseFilter({ or: [{ title: "a" }, { price: { gt: 5 } }] }, fields);
+        assert.deepEqual(query, { $and: [{ $or: [{ $and: [{ title: { $eq: "a" } }] }, { $and: [{ price: { $gt: 5 } }] }] }] });
+    });
+
+    it("accepts and/or items as object with numeric keys", () => {
+        const { query } = parseFilter({ and: { 0: { title: "a" } } as any }, fields);
+        assert.deepEqual(query, { $and: [{ $and: [{ $and: [{ title: { $eq: "a" } }] }] }] });
+    });
+
+    it("rejects fields that are not allowed", () => {
+        assert.deepEqual(parseFilter({ password: "x" }, fields).error, { field: "password", message: EDocumentMSG.FIELD_NOT_FILTERABLE });
+    });
+
+    it("rejects raw mongo operators", () => {
+        assert.deepEqual(parseFilter({ $where: "1" } as any, fields).error, { field: "$where", message: EDocumentMSG.FILTER_OPERATOR_NOT_ALLOWED });
+        assert.deepEqual(parseFilter({ title: { $ne: "a" } } as any, fields).error, {
+            field: "title",
+            message: EDocumentMSG.FILTER_OPERATOR_NOT_ALLOWED,
+        });
+    });
+
+    it("rejects invalid conditions", () => {
+        assert.equal(parseFilter({ title: { like: "a" } } as any, fields).error?.message, EDocumentMSG.INVALID_FILTER);
+        assert.equal(parseFilter({ title: { gt: { a: 1 } } } as any, fields).error?.message, EDocumentMSG.INVALID_FILTER);
+        assert.equal(parseFilter({ title: [{ a: 1 }] } as any, fields).error?.message, EDocumentMSG.INVALID_FILTER);
+        assert.equal(parseFilter({ or: [] }, fields).error?.message, EDocumentMSG.INVALID_FILTER);
+    });
+
+    it("rejects filters deeper than max depth", () => {
+        let filter: any = { title: "a" };
+        for (let i = 0; i <= MAX_FILTER_DEPTH; i++) filter = { and: [filter] };
+        assert.equal(parseFilter(filter, fields).error?.message, EDocumentMSG.INVALID_FILTER);
+    });
+
+    it("casts values with cast function except null", () => {
+        const cast = (field: string, value: unknown) => (value === "x" ? { error: EDocumentMSG.INVALID_FIELD_TYPE } : { value: Number(value) });
+
+        assert.deepEqual(parseFilter({ price: { in: ["1", "2"] }, title: null }, fields, cast).query, {
+            $and: [{ price: { $in: [1, 2] } }, { title: { $eq: null } }],
+        });
+        assert.deepEqual(parseFilter({ price: "x" }, fields, cast).error, { field: "price", message: EDocumentMSG.INVALID_FIELD_TYPE });
+    });
+});
@@ -0,0 +1,146 @@
+import { EDocumentMSG } from "../messages/document";
+import { IDocumentFilter, TFilterOperator } from "../types/general";
+import { escapeRegex } from "./search";
+import { TCastResult } from "./variables";
+
+// max depth of nested and/or filters
+export const MAX_FILTER_DEPTH = 5;
+
+const OPERATORS: Record<TFilterOperator, string> = {
+    eq: "$eq",
+    ne: "$ne",
+    in: "$in",
+    gt: "$gt",
+    gte: "$gte",
+    lt: "$lt",
+    lte: "$lte",
+    exists: "$exists",
+    regex: "$regex",
+};
+
+export type TParsedFilter =
+    | { query: Record<string, any>; error?: undefined }
+    | { query?: undefined; error: { field: string; message: EDocumentMSG } };
+
+// cast value of field that mongoose doesn't cast (like custom fields in mixed path)
+export type TFilterCast = (field: string, value: unknown) => TCastResult;
+
+type TPrimitive = string | number | boolean | null;
+
+function isPrimitive(value: unknown): value is TPrimitive {
+    return value === null || ["string", "number", "boolean"].includes(typeof value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function filterError(field: string, message: EDocumentMSG): TParsedFilter {
+    return { error: { field, message } };
+}
+
+// convert condition of one field (shorthand value or operators object) to mongo condition
+function parseCondition(field: string, condition: unknown, cast?: TFilterCast): TParsedFilter {
+    // null is kept to match missing values
+    const castValue = (value: unknown): TCastResult => (cast && value !== null ? cast(field, value) : { value });
+    const castList = (values: unknown[]): TCastResult => {
+        const result: unknown[] = [];
+        for (const value of values) {
+            const casted = castValue(value);
+            if (casted.error) return casted;
+            result.push(casted.value);
+        }
+        return { value: result };
+    };
+
+    // shorthand equal
+    if (isPrimitive(condition) || condition instanceof Date) {
+        const casted = castValue(condition);
+        if (casted.error) return filterError(field, casted.error);
+        return { query: { $eq: casted.value } };
+    }
+
+    // shorthand in
+    if (Array.isArray(condition)) {
+        if (!condition.every(isPrimitive)) return filterError(field, EDocumentMSG.INVALID_FILTER);
+        const casted = castList(condition);
+        if (casted.error) return filterError(field, casted.error);
+        return { query: { $in: casted.value } };
+    }
+
+    if (!isPlainObject(condition)) return filterError(field, EDocumentMSG.INVALID_FILTER);
+
+    const query: Record<string, any> = {};
+    for (const [operator, value] of Object.entries(condition)) {
+        // reject raw mongo operators like $where
+        if (operator.startsWith("$")) return filterError(field, EDocumentMSG.FILTER_OPERATOR_NOT_ALLOWED);
+        if (!(operator in OPERATORS)) return filterError(field, EDocumentMSG.INVALID_FILTER);
+
+        switch (operator as TFilterOperator) {
+            case "in": {
+                // accept comma separated values from query string
+                const values = typeof value === "string" ? value.split(",") : value;
+                if (!Array.isArray(values) || !values.every(isPrimitive)) return filterError(field, EDocumentMSG.INVALID_FILTER);
+                const casted = castList(values);
+                if (casted.error) return filterError(field, casted.error);
+                query.$in = casted.value;
+                break;
+            }
+            case "exists":
+                if (![true, false, "true", "false"].includes(value as any)) return filterError(field, EDocumentMSG.INVALID_FILTER);
+                query.$exists = value === true || value === "true";
+                break;
+            case "regex":
+                // user input is escaped so it only matches as case-insensitive text
+                if (typeof value !== "string") return filterError(field, EDocumentMSG.INVALID_FILTER);
+                query.$regex = new RegExp(escapeRegex(value), "i");
+                break;
+            default: {
+                if (!isPrimitive(value) && !(value instanceof Date)) return filterError(field, EDocumentMSG.INVALID_FILTER);
+                const casted = castValue(value);
+                if (casted.error) return filterError(field, casted.error);
+                query[OPERATORS[operator as TFilterOperator]] = casted.value;
+            }
+        }
+    }
+
+    return { query };
+}
+
+// convert user filter to mongo query, only fields in allowedFields are accepted
+export function parseFilter(filter: IDocumentFilter, allowedFields: string[], cast?: TFilterCast, depth = 0): TParsedFilter {
+    if (!isPlainObject(filter) || depth > MAX_FILTER_DEPTH) return filterError("filter", EDocumentMSG.INVALID_FILTER);
+
+    const conditions: Record<string, any>[] = [];
+    for (const [key, value] of Object.entries(filter)) {
+        if (value === undefined) continue;
+
+        // reject raw mongo operators like $where
+        if (key.startsWith("$")) return filterError(key, EDocumentMSG.FILTER_OPERATOR_NOT_ALLOWED);
+
+        // and/or combinations
+        if (key === "and" || key === "or") {
+            // query string parsers may give arrays as objects with numeric keys
+            const items = Array.isArray(value) ? value : isPlainObject(value) ? Object.values(value) : null;
+            if (!items?.length) return filterError(key, EDocumentMSG.INVALID_FILTER);
+
+            const parsedItems: Record<string, any>[] = [];
+            for (const item of items) {
+                const parsed = parseFilter(item as IDocumentFilter, allowedFields, cast, depth + 1);
+                if (parsed.error) return parsed;
+                parsedItems.push(parsed.query);
+            }
+
+            conditions.push({ ["$" + key]: parsedItems });
+            continue;
+        }
+
+        if (!allowedFields.includes(key)) return filterError(key, EDocumentMSG.FIELD_NOT_FILTERABLE);
+
+        const parsed = parseCondition(key, value, cast);
+        if (parsed.error) return parsed;
+        conditions.push({ [key]: parsed.query });
+    }
+
+    return { query: conditions.length ? { $and: conditions } : {} };
+}
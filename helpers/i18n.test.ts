@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getTranslatableFields, localeChain, localizeSchema, missingTranslations, resolveTranslations } from "./i18n";
+
+describe("getTranslatableFields", () => {
+    it("gets fields marked as translatable", () => {
+        const schema = { title: { type: String, translatable: true }, body: { type: String, translatable: false }, price: Number };
+        assert.deepEqual(getTranslatableFields(schema), ["title"]);
+    });
+});
+
+describe("localizeSchema", () => {
+    it("replaces translatable fields with object of locales", () => {
+        const schema = { title: { type: String, translatable: true, required: true, unique: true, trim: true }, price: Number };
+
+        assert.deepEqual(localizeSchema(schema, ["en", "fa"], "en"), {
+            title: { en: { type: String, trim: true, required: true }, fa: { type: String, trim: true } },
+            price: Number,
+        });
+    });
+});
+
+describe("localeChain", () => {
+    const locales = ["en", "fa", "de"];
+
+    it("orders locale, fallback and default locale without duplicates", () => {
+        assert.deepEqual(localeChain("fa", ["de", "fa"], locales, "en"), ["fa", "de", "en"]);
+    });
+
+    it("leaves out unknown locales", () => {
+        assert.deepEqual(localeChain("fr", ["xx"], locales, "en"), ["en"]);
+    });
+
+    it("returns empty chain without locale", () => {
+        assert.deepEqual(localeChain(undefined, ["fa"], locales, "en"), []);
+    });
+});
+
+describe("resolveTranslations", () => {
+    it("uses value of first locale in chain that has value", () => {
+        const doc = { title: { en: "Book", fa: "" }, body: { en: null, fa: null }, price: 5 };
+
+        assert.deepEqual(resolveTranslations(doc, ["title", "body"], ["fa", "en"]), { title: "Book", body: null, price: 5 });
+        assert.deepEqual(doc.title, { en: "Book", fa: "" });
+    });
+
+    it("keeps fields that are not objects", () => {
+        assert.deepEqual(resolveTranslations({ title: "Book" }, ["title"], ["en"]), { title: "Book" });
+    });
+});
+
+describe("missingTranslations", () => {
+    it("gets empty fields of each locale", () => {
+        const doc = { title: { en: "Book", fa: "" }, body: { en: "Text" } };
+        assert.deepEqual(missingTranslations(doc, ["title", "body"], ["en", "fa"]), { en: [], fa: ["title", "body"] });
+    });
+});
@@ -0,0 +1,63 @@
+import { TMongooseSchema } from "../types/general";
+
+// option of schema fields that have value per locale
+export const TRANSLATABLE_OPTION = "translatable";
+
+function isTranslatable(definition: unknown) {
+    return !!definition && typeof definition === "object" && (definition as Record<string, unknown>)[TRANSLATABLE_OPTION] === true;
+}
+
+// get names of fields that are marked as translatable
+export function getTranslatableFields(schema: TMongooseSchema) {
+    return Object.entries(schema)
+        .filter(([, definition]) => isTranslatable(definition))
+        .map(([field]) => field);
+}
+
+// replace translatable fields with object of locales (only default locale keeps required, unique is dropped since translations may be empty)
+export function localizeSchema(schema: TMongooseSchema, locales: string[], defaultLocale: string): TMongooseSchema {
+    return Object.fromEntries(
+        Object.entries(schema).map(([field, definition]) => {
+            if (!isTranslatable(definition)) return [field, definition];
+
+            const { [TRANSLATABLE_OPTION]: _, required, unique, ...options } = definition as Record<string, any>;
+            const localized = Object.fromEntries(
+                locales.map((locale) => [locale, locale === defaultLocale && required ? { ...options, required } : options])
+            );
+
+            return [field, localized];
+        })
+    );
+}
+
+// get ordered list of locales to read values from
+export function localeChain(locale: string | undefined, fallback: string[] = [], locales: string[], defaultLocale: string) {
+    if (!locale) return [];
+    return [...new Set([locale, ...fallback, defaultLocale])].filter((item) => locales.includes(item));
+}
+
+function isEmpty(value: unknown) {
+    return value === undefined || value === null || value === "";
+}
+
+// replace translatable fields with value of first locale in chain that has value
+export function resolveTranslations<T extends Record<string, any>>(doc: T, fields: string[], chain: string[]) {
+    const resolved: Record<string, any> = { ...doc };
+
+    for (const field of fields) {
+        const values = doc[field];
+        if (!values || typeof values !== "object") continue;
+
+        const locale = chain.find((locale) => !isEmpty(values[locale]));
+        resolved[field] = locale ? values[locale] : null;
+    }
+
+    return resolved as T;
+}
+
+// get translatable fields that have no value for each locale
+export function missingTranslations(doc: Record<string, any>, fields: string[], locales: string[]) {
+    return Object.fromEntries(
+        locales.map((locale) => [locale, fields.filter((field) => isEmpty(doc[field]?.[locale]))])
+    ) as Record<string, string[]>;
+}
@@ -0,0 +1,151 @@
+import { IDocOperation, IDocOptions, IJsonSchema } from "../types/general";
+
+const PAGE_QUERY = ["page", "limit"];
+
+// get operations of Doc that are enabled by options
+export function getDocOperations(document: IDocOptions): IDocOperation[] {
+    const base = "/" + document.docName.toLowerCase();
+    const name = document.docName;
+
+    const operations: IDocOperation[] = [
+        { name: "getAll", method: "get", path: base, tag: "documents", summary: "get documents", query: [...PAGE_QUERY, "sort", "category", "includeDescendants", "filter", "pagination", "cursor", "locale", "fallback", "include"], response: name, list: true },
+        { name: "search", method: "get", path: base + "/search", tag: "documents", summary: "search documents", query: ["q", ...PAGE_QUERY, "locale", "fallback"], response: name, list: true },
+        { name: "export", method: "get", path: base + "/export", tag: "documents", summary: "export documents", query: ["format", "filter", "includeComments"] },
+        { name: "import", method: "post", path: base + "/import", tag: "documents", summary: "import documents", query: ["format", "upsertBy", "dryRun"] },
+        { name: "bulkCreate", method: "post", path: base + "/bulk", tag: "documents", summary: "create documents", body: name + "Create" },
+        { name: "bulkEdit", method: "patch", path: base + "/bulk", tag: "documents", summary: "edit documents", body: name + "Edit" },
+        { name: "bulkDelete", method: "delete", path: base + "/bulk", tag: "documents", summary: "delete documents" },
+        { name: "create", method: "post", path: base, tag: "documents", summary: "create document", body: name + "Create", response: name },
+        { name: "getOne", method: "get", path: base + "/{identity}", tag: "documents", summary: "get document by id or slug", params: ["identity"], query: ["locale", "fallback", "include"], response: name },
+        { name: "edit", method: "patch", path: base + "/{identity}", tag: "documents", summary: "edit document", params: ["identity"], body: name + "Edit", response: name },
+        { name: "delete", method: "delete", path: base + "/{identity}", tag: "documents", summary: "delete document", params: ["identity"], response: name },
+    ];
+
+    if (document.i18n) {
+        operations.push({ name: "getMissingTranslations", method: "get", path: base + "/{identity}/translations/missing", tag: "documents", summary: "get missing translations of document", params: ["identity"] });
+    }
+
+    if (document.softDelete?.enabled) {
+        operations.push(
+            { name: "getTrash", method: "get", path: base + "/trash", tag: "documents", summary: "get deleted documents", query: PAGE_QUERY, response: name, list: true },
+            { name: "restore", method: "post", path: base + "/{identity}/restore", tag: "documents", summary: "restore deleted document", params: ["identity"], response: name },
+            { name: "purge", method: "delete", path: base + "/{identity}/purge", tag: "documents", summary: "delete document from trash forever", params: ["identity"], response: name }
+        );
+    }
+
+    if (document.versioning?.enabled) {
+        operations.push(
+            { name: "Revision.getAll", method: "get", path: base + "/{identity}/revisions", tag: "documents", summary: "get revisions of document", params: ["identity"], query: PAGE_QUERY, list: true },
+            { name: "Revision.diff", method: "get", path: base + "/{identity}/revisions/diff", tag: "documents", summary: "compare two revisions", params: ["identity"], query: ["from", "to"] },
+            { name: "Revision.restore", method: "post", path: base + "/{identity}/revisions/{version}/restore", tag: "documents", summary: "restore revision", params: ["identity", "version"], response: name }
+        );
+    }
+
+    if (document.comments?.enabled) {
+        const comment = name + "Comment";
+        operations.push(
+            { name: "Comment.getComments", method: "get", path: base + "/comments", tag: "comments", summary: "get comments", query: [...PAGE_QUERY, "filter", "sort"], response: comment, list: true },
+            { name: "Comment.getModerationQueue", method: "get", path: base + "/comments/queue", tag: "comments", summary: "get comments waiting for moderation", query: PAGE_QUERY, response: comment, list: true },
+            { name: "Comment.bulkModerate", method: "post", path: base + "/comments/moderate", tag: "comments", summary: "moderate comments" },
+            { name: "Comment.getMyReactions", method: "get", path: base + "/comments/reactions", tag: "comments", summary: "get reactions of user", query: ["ids"] },
+            { name: "Comment.newComment", method: "post", path: base + "/comments", tag: "comments", summary: "create comment", body: comment + "Create", response: comment },
+            { name: "Comment.getComment", method: "get", path: base + "/comments/{id}", tag: "comments", summary: "get comment", params: ["id"], response: comment },
+            { name: "Comment.editComment", method: "patch", path: base + "/comments/{id}", tag: "comments", summary: "edit comment", params: ["id"], body: comment + "Edit", response: comment },
+            { name: "Comment.deleteComment", method: "delete", path: base + "/comments/{id}", tag: "comments", summary: "delete comment", params: ["id"], response: comment },
+            { name: "Comment.getReplies", method: "get", path: base + "/comments/{id}/replies", tag: "comments", summary: "get replies of comment", params: ["id"], query: [...PAGE_QUERY, "maxDepth"], response: comment, list: true },
+            { name: "Comment.approve", method: "post", path: base + "/comments/{id}/approve", tag: "comments", summary: "approve comment", params: ["id"], response: comment },
+            { name: "Comment.reject", method: "post", path: base + "/comments/{id}/reject", tag: "comments", summary: "reject comment", params: ["id"], response: comment },
+            { name: "Comment.react", method: "put", path: base + "/comments/{id}/reaction", tag: "comments", summary: "react to comment", params: ["id"] },
+            { name: "Comment.unreact", method: "delete", path: base + "/comments/{id}/reaction", tag: "comments", summary: "remove reaction of comment", params: ["id"] },
+            { name: "Comment.getDocumentComments", method: "get", path: base + "/{identity}/comments", tag: "comments", summary: "get comments of document", params: ["identity"], query: [...PAGE_QUERY, "sort"], response: comment, list: true },
+            { name: "Comment.getThread", method: "get", path: base + "/{identity}/comments/thread", tag: "comments", summary: "get comment threads of document", params: ["identity"], query: [...PAGE_QUERY, "maxDepth", "sort"], response: comment, list: true }
+        );
+
+        if (document.softDelete?.enabled) {
+            operations.push(
+                { name: "Comment.restore", method: "post", path: base + "/comments/{id}/restore", tag: "comments", summary: "restore deleted comment", params: ["id"], response: comment },
+                { name: "Comment.purge", method: "delete", path: base + "/comments/{id}/purge", tag: "comments", summary: "delete comment from trash forever", params: ["id"], response: comment }
+            );
+        }
+    }
+
+    if (document.category?.enabled) {
+        const category = name + "Category";
+        operations.push(
+            { name: "Category.getAll", method: "get", path: base + "/categories", tag: "categories", summary: "get categories", query: [...PAGE_QUERY, "sort"], response: category, list: true },
+            { name: "Category.getTree", method: "get", path: base + "/categories/tree", tag: "categories", summary: "get tree of categories" },
+            { name: "Category.create", method: "post", path: base + "/categories", tag: "categories", summary: "create category", body: category + "Create", response: category },
+            { name: "Category.getOne", method: "get", path: base + "/categories/{identity}", tag: "categories", summary: "get category", params: ["identity"], response: category },
+            { name: "Category.getPath", method: "get", path: base + "/categories/{identity}/path", tag: "categories", summary: "get parents of category", params: ["identity"], response: category, list: true },
+            { name: "Category.getWithDocuments", method: "get", path: base + "/categories/{identity}/documents", tag: "categories", summary: "get category with its documents", params: ["identity"], query: PAGE_QUERY },
+            { name: "Category.edit", method: "patch", path: base + "/categories/{identity}", tag: "categories", summary: "edit category", params: ["identity"], body: category + "Edit", response: category },
+            { name: "Category.delete", method: "delete", path: base + "/categories/{identity}", tag: "categories", summary: "delete category", params: ["identity"], response: category }
+        );
+    }
+
+    if (document.options?.variable_data) {
+        const field = name + "FieldDef";
+        operations.push(
+            { name: "FieldDef.getAll", method: "get", path: base + "/fields", tag: "documents", summary: "get definitions of custom fields", query: ["category"], response: field, list: true },
+            { name: "FieldDef.create", method: "post", path: base + "/fields", tag: "documents", summary: "create custom field", body: field, response: field },
+            { name: "FieldDef.edit", method: "patch", path: base + "/fields/{id}", tag: "documents", summary: "edit custom field", params: ["id"], body: field, response: field },
+            { name: "FieldDef.delete", method: "delete", path: base + "/fields/{id}", tag: "documents", summary: "delete custom field", params: ["id"], response: field }
+        );
+    }
+
+    if (document.audit?.enabled) {
+        operations.push({ name: "Audit.getAll", method: "get", path: base + "/audit", tag: "audit", summary: "get audit log", query: [...PAGE_QUERY, "filter"], list: true });
+    }
+
+    return operations;
+}
+
+const RESULT_SCHEMA: IJsonSchema = {
+    type: "object",
+    properties: {
+        type: { type: "string" },
+        status: { type: "number" },
+        message: { type: "string" },
+        data: {},
+        pageData: { type: "object" },
+        nextCursor: { type: "string" },
+        prevCursor: { type: "string" },
+    },
+};
+
+function ref(name: string): IJsonSchema {
+    return { $ref: "#/components/schemas/" + name };
+}
+
+// create openapi fragment (paths and components) of operations
+export function buildOpenApi(docName: string, operations: IDocOperation[], schemas: Record<string, IJsonSchema>) {
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const operation of operations) {
+        const data: IJsonSchema = operation.response ? (operation.list ? { type: "array", items: ref(operation.response) } : ref(operation.response)) : {};
+
+        const entry: Record<string, unknown> = {
+            operationId: docName + "_" + operation.name.replace(".", "_"),
+            tags: [docName + " " + operation.tag],
+            summary: operation.summary,
+            parameters: [
+                ...(operation.params ?? []).map((param) => ({ name: param, in: "path", required: true, schema: { type: "string" } })),
+                ...(operation.query ?? []).map((param) => ({ name: param, in: "query", schema: { type: "string" } })),
+            ],
+            responses: {
+                default: {
+                    description: "result of operation",
+                    content: { "application/json": { schema: { allOf: [ref("Result"), { type: "object", properties: { data } }] } } },
+                },
+            },
+        };
+
+        if (operation.body) {
+            entry.requestBody = { required: true, content: { "application/json": { schema: ref(operation.body) } } };
+        }
+
+        (paths[operation.path] ??= {})[operation.method] = entry;
+    }
+
+    return { paths, components: { schemas: { Result: RESULT_SCHEMA, ...schemas } } };
+}
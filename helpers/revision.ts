@@ -0,0 +1,32 @@
+import { IRevisionDiff } from "../types/general";
+
+// fields that are managed by mongoose and not part of document content
+export const META_FIELDS = ["_id", "__v", "createdAt", "updatedAt"];
+
+// mongo error code of unique index conflict
+export const DUPLICATE_KEY_CODE = 11000;
+
+// times to get next version again when concurrent edits save same version
+export const MAX_VERSION_RETRIES = 5;
+
+function isEqual(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// remove meta fields from document snapshot
+export function cleanSnapshot(snapshot: Record<string, any>) {
+    return Object.fromEntries(Object.entries(snapshot).filter(([field]) => !META_FIELDS.includes(field)));
+}
+
+// compare two snapshots field by field
+export function diffSnapshots(from: Record<string, any>, to: Record<string, any>): IRevisionDiff {
+    const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+    const diff: IRevisionDiff = {};
+
+    for (const field of fields) {
+        if (META_FIELDS.includes(field) || isEqual(from[field], to[field])) continue;
+        diff[field] = { from: from[field], to: to[field] };
+    }
+
+    return diff;
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import mongoose from "mongoose";
+import { EDocumentMSG } from "../messages/document";
+import { toJsonSchema, validateJsonSchema } from "./schema";
+
+const schema = new mongoose.Schema({
+    title: { type: String, required: true, minlength: 2, maxlength: [10, "too long"] },
+    state: { type: String, enum: ["draft", "published"], default: "draft" },
+    price: { type: Number, min: 0 },
+    publishedAt: Date,
+    authorId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    tags: [String],
+    seo: { keywords: { type: String, required: true } },
+    extra: mongoose.Schema.Types.Mixed,
+});
+
+describe("toJsonSchema", () => {
+    const json = toJsonSchema(schema, { omit: ["_id", "__v"] });
+
+    it("converts field types and options", () => {
+        assert.deepEqual(json.properties!.title, { type: "string", minLength: 2, maxLength: 10 });
+        assert.deepEqual(json.properties!.state, { type: "string", enum: ["draft", "published"], default: "draft" });
+        assert.deepEqual(json.properties!.price, { type: "number", minimum: 0 });
+        assert.deepEqual(json.properties!.publishedAt, { type: "string", format: "date-time" });
+        assert.equal(json.properties!.authorId.description, "id of User");
+        assert.deepEqual(json.properties!.tags, { type: "array", items: { type: "string" } });
+        assert.deepEqual(json.properties!.extra, {});
+    });
+
+    it("creates nested objects of dotted paths", () => {
+        assert.deepEqual(json.properties!.seo, { type: "object", properties: { keywords: { type: "string" } }, required: ["keywords"] });
+    });
+
+    it("requires fields without default only in create mode", () => {
+        assert.deepEqual(json.required, ["title"]);
+        assert.deepEqual(toJsonSchema(schema, { mode: "edit" }).required, []);
+    });
+
+    it("leaves out omitted fields", () => {
+        assert.equal(json.properties!._id, undefined);
+        assert.equal(toJsonSchema(schema, { omit: ["seo"] }).properties!.seo, undefined);
+    });
+});
+
+describe("validateJsonSchema", () => {
+    const json = toJsonSchema(schema, { omit: ["_id", "__v"] });
+    const valid = { title: "book", seo: { keywords: "a" } };
+
+    it("accepts values that mongoose can cast", () => {
+        assert.equal(validateJsonSchema(valid, json), undefined);
+        assert.equal(validateJsonSchema({ ...valid, price: "5", publishedAt: "2024-01-01", tags: ["a", 1] }, json), undefined);
+        assert.equal(validateJsonSchema({ ...valid, authorId: "0123456789abcdef01234567" }, json), undefined);
+    });
+
+    it("returns first error with path of field", () => {
+        assert.deepEqual(validateJsonSchema({ seo: { keywords: "a" } }, json), { field: "title", message: EDocumentMSG.FIELD_REQUIRED });
+        assert.deepEqual(validateJsonSchema({ ...valid, seo: {} }, json), { field: "seo.keywords", message: EDocumentMSG.FIELD_REQUIRED });
+        assert.deepEqual(validateJsonSchema({ ...valid, tags: ["a", {}] }, json), { field: "tags.1", message: EDocumentMSG.INVALID_FIELD_TYPE });
+    });
+
+    it("rejects values of wrong type", () => {
+        assert.equal(validateJsonSchema({ ...valid, price: "abc" }, json)?.message, EDocumentMSG.INVALID_FIELD_TYPE);
+        assert.equal(validateJsonSchema({ ...valid, publishedAt: "not a date" }, json)?.message, EDocumentMSG.INVALID_FIELD_TYPE);
+        assert.equal(validateJsonSchema({ ...valid, authorId: "123" }, json)?.message, EDocumentMSG.INVALID_FIELD_TYPE);
+        assert.equal(validateJsonSchema({ ...valid, tags: "a" }, json)?.message, EDocumentMSG.INVALID_FIELD_TYPE);
+    });
+
+    it("rejects values out of enum, range and length", () => {
+        assert.equal(validateJsonSchema({ ...valid, state: "deleted" }, json)?.message, EDocumentMSG.INVALID_FIELD_VALUE);
+        assert.equal(validateJsonSchema({ ...valid, price: -1 }, json)?.message, EDocumentMSG.INVALID_FIELD_VALUE);
+        assert.equal(validateJsonSchema({ ...valid, title: "a" }, json)?.message, EDocumentMSG.INVALID_FIELD_VALUE);
+        assert.equal(validateJsonSchema({ ...valid, title: "a very long title" }, json)?.message, EDocumentMSG.INVALID_FIELD_VALUE);
+    });
+
+    it("ignores empty values and unknown fields", () => {
+        assert.equal(validateJsonSchema({ ...valid, price: null, other: { a: 1 } }, json), undefined);
+    });
+});
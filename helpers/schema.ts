@@ -0,0 +1,172 @@
+import mongoose from "mongoose";
+import { EDocumentMSG } from "../messages/document";
+import { IJsonSchema, TPayloadMode } from "../types/general";
+
+const OBJECT_ID_PATTERN = "^[0-9a-fA-F]{24}$";
+
+export type TSchemaError = { field: string; message: EDocumentMSG };
+
+// get enum values of mongoose option (array or object with values)
+function enumValues(option: any): unknown[] | undefined {
+    if (Array.isArray(option)) return option;
+    if (option && Array.isArray(option.values)) return option.values;
+}
+
+// get value of mongoose option that may be [value, message]
+function optionValue(option: any) {
+    return Array.isArray(option) ? option[0] : option;
+}
+
+// convert one mongoose schema type to json schema
+function schemaTypeToJson(schemaType: any, mode: TPayloadMode): IJsonSchema {
+    const options = schemaType.options ?? {};
+    let json: IJsonSchema;
+
+    switch (schemaType.instance) {
+        case "String":
+            json = { type: "string" };
+            if (enumValues(options.enum)) json.enum = enumValues(options.enum);
+            if (options.minlength !== undefined) json.minLength = optionValue(options.minlength);
+            if (options.maxlength !== undefined) json.maxLength = optionValue(options.maxlength);
+            if (optionValue(options.match) instanceof RegExp) json.pattern = optionValue(options.match).source;
+            break;
+        case "Number":
+        case "Decimal128":
+            json = { type: "number" };
+            if (enumValues(options.enum)) json.enum = enumValues(options.enum);
+            if (options.min !== undefined) json.minimum = optionValue(options.min);
+            if (options.max !== undefined) json.maximum = optionValue(options.max);
+            break;
+        case "Boolean":
+            json = { type: "boolean" };
+            break;
+        case "Date":
+            json = { type: "string", format: "date-time" };
+            break;
+        case "ObjectId":
+            json = { type: "string", pattern: OBJECT_ID_PATTERN };
+            break;
+        case "Array":
+            // array of sub documents or array of one type
+            json = {
+                type: "array",
+                items: schemaType.schema
+                    ? toJsonSchema(schemaType.schema, { mode })
+                    : schemaTypeToJson(schemaType.caster ?? schemaType.$embeddedSchemaType ?? {}, mode),
+            };
+            break;
+        case "Embedded":
+            json = toJsonSchema(schemaType.schema, { mode });
+            break;
+        case "Map":
+            json = { type: "object", additionalProperties: options.of ? schemaTypeToJson(schemaType.$__schemaType ?? {}, mode) : {} };
+            break;
+        default:
+            // mixed types accept any value
+            json = {};
+    }
+
+    if (options.default !== undefined && typeof options.default !== "function") json.default = options.default;
+    if (options.ref) json.description = "id of " + (typeof options.ref === "string" ? options.ref : "referenced document");
+
+    return json;
+}
+
+// check if mongoose field is required in payload (fields with default are filled by DB)
+function isRequired(schemaType: any) {
+    return schemaType.options?.required === true && schemaType.options?.default === undefined;
+}
+
+// convert mongoose schema to json schema of payload (required fields are left out in edit mode)
+export function toJsonSchema(schema: mongoose.Schema, { mode = "create", omit = [] }: { mode?: TPayloadMode; omit?: string[] } = {}) {
+    const json: IJsonSchema = { type: "object", properties: {}, required: [] };
+
+    for (const [path, schemaType] of Object.entries(schema.paths)) {
+        if (omit.includes(path) || omit.includes(path.split(".")[0])) continue;
+
+        // create nested objects of dotted paths
+        const parts = path.split(".");
+        let parent = json;
+        for (const part of parts.slice(0, -1)) {
+            parent.properties![part] ??= { type: "object", properties: {}, required: [] };
+            parent = parent.properties![part];
+        }
+
+        const field = parts[parts.length - 1];
+        parent.properties![field] = schemaTypeToJson(schemaType, mode);
+        if (mode === "create" && isRequired(schemaType)) parent.required!.push(field);
+    }
+
+    return json;
+}
+
+function isEmpty(value: unknown) {
+    return value === undefined || value === null || value === "";
+}
+
+// check if value can be cast to type of json schema (same as mongoose casting)
+function isValidType(value: unknown, json: IJsonSchema) {
+    switch (json.type) {
+        case "string":
+            if (json.format === "date-time") return value instanceof Date || (["string", "number"].includes(typeof value) && !isNaN(new Date(value as string).getTime()));
+            if (json.pattern === OBJECT_ID_PATTERN) return mongoose.isValidObjectId(value);
+            return ["string", "number", "boolean"].includes(typeof value);
+        case "number":
+            return (typeof value === "number" && isFinite(value)) || (typeof value === "string" && value.trim() !== "" && isFinite(Number(value)));
+        case "boolean":
+            return typeof value === "boolean" || ["true", "false", "1", "0"].includes(String(value));
+        case "array":
+            return Array.isArray(value);
+        case "object":
+            return typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+        default:
+            return true;
+    }
+}
+
+// validate value with json schema and return first field error
+export function validateJsonSchema(value: unknown, json: IJsonSchema, field = ""): TSchemaError | undefined {
+    const name = (key: string | number) => (field ? `${field}.${key}` : String(key));
+
+    if (isEmpty(value)) return;
+    if (!isValidType(value, json)) return { field, message: EDocumentMSG.INVALID_FIELD_TYPE };
+
+    if (json.enum && !json.enum.map(String).includes(String(value))) return { field, message: EDocumentMSG.INVALID_FIELD_VALUE };
+
+    if (json.type === "number") {
+        const number = Number(value);
+        if ((json.minimum !== undefined && number < json.minimum) || (json.maximum !== undefined && number > json.maximum)) {
+            return { field, message: EDocumentMSG.INVALID_FIELD_VALUE };
+        }
+    }
+
+    if (json.type === "string" && typeof value === "string" && !json.format) {
+        if ((json.minLength !== undefined && value.length < json.minLength) || (json.maxLength !== undefined && value.length > json.maxLength)) {
+            return { field, message: EDocumentMSG.INVALID_FIELD_VALUE };
+        }
+        if (json.pattern && !new RegExp(json.pattern).test(value)) return { field, message: EDocumentMSG.INVALID_FIELD_VALUE };
+    }
+
+    if (json.type === "array" && json.items) {
+        for (const [index, item] of (value as unknown[]).entries()) {
+            const error = validateJsonSchema(item, json.items, name(index));
+            if (error) return error;
+        }
+    }
+
+    if (json.type === "object") {
+        const data = value as Record<string, unknown>;
+
+        for (const key of json.required ?? []) {
+            if (isEmpty(data[key])) return { field: name(key), message: EDocumentMSG.FIELD_REQUIRED };
+        }
+
+        for (const [key, item] of Object.entries(data)) {
+            const itemJson = json.properties?.[key] ?? (typeof json.additionalProperties === "object" ? json.additionalProperties : undefined);
+            if (!itemJson) continue;
+
+            const error = validateJsonSchema(item, itemJson, name(key));
+            if (error) return error;
+        }
+    }
+}
@@ -0,0 +1,26 @@
+// mongo error code when $text is used without text index
+export const TEXT_INDEX_NOT_FOUND_CODE = 27;
+
+// escape special characters of user input to use it in regex
+export function escapeRegex(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// create aggregate expression that scores document base on number of fields that match query
+export function regexScoreExpression(fields: string[], query: string) {
+    return {
+        $add: fields.map((field) => ({
+            $cond: [
+                {
+                    $regexMatch: {
+                        input: { $convert: { input: "$" + field, to: "string", onError: "", onNull: "" } },
+                        regex: escapeRegex(query),
+                        options: "i",
+                    },
+                },
+                1,
+                0,
+            ],
+        })),
+    };
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Model } from "mongoose";
+import { slugify, uniqueSlug } from "./slug";
+
+// model that has documents with given slugs and keeps queries of exists
+function fakeModel(used: string[]) {
+    const queries: any[] = [];
+    const model = {
+        queries,
+        exists: async (query: any) => {
+            queries.push(query);
+            return query.$or.some((condition: Record<string, string>) => used.includes(Object.values(condition)[0])) ? { _id: "x" } : null;
+        },
+    };
+
+    return model as typeof model & Model<any>;
+}
+
+describe("slugify", () => {
+    it("converts text to url friendly slug", () => {
+        assert.equal(slugify("  Hello, World!  "), "hello-world");
+        assert.equal(slugify("--a__b--"), "a-b");
+    });
+
+    it("keeps letters of all languages", () => {
+        assert.equal(slugify("کتاب خوب ۲"), "کتاب-خوب-۲");
+    });
+
+    it("returns empty text when there is no letter", () => {
+        assert.equal(slugify("!!!"), "");
+    });
+});
+
+describe("uniqueSlug", () => {
+    it("adds number to used slugs", async () => {
+        assert.equal(await uniqueSlug("Book", fakeModel([]), "slug"), "book");
+        assert.equal(await uniqueSlug("Book", fakeModel(["book", "book-2"]), "slug"), "book-3");
+    });
+
+    it("skips reserved slugs", async () => {
+        assert.equal(await uniqueSlug("Book", fakeModel(["book-2"]), "slug", undefined, ["book"]), "book-3");
+    });
+
+    it("uses item for empty slugs", async () => {
+        assert.equal(await uniqueSlug("!!!", fakeModel([]), "slug"), "item");
+    });
+
+    it("checks all paths and excludes document", async () => {
+        const model = fakeModel([]);
+        await uniqueSlug("Book", model, ["slug.en", "slug.fa"], "id");
+
+        assert.deepEqual(model.queries, [{ $or: [{ "slug.en": "book" }, { "slug.fa": "book" }], _id: { $ne: "id" } }]);
+    });
+});
@@ -0,0 +1,27 @@
+import { Model } from "mongoose";
+
+// fields that are only written by slug changes (old slugs and lock of hand made slugs)
+export const SLUG_META_FIELDS = ["slugHistory", "slugLocked"];
+
+// convert text to url friendly slug (letters of all languages are kept)
+export function slugify(text: string) {
+    return text
+        .toString()
+        .trim()
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-+|-+$/g, "");
+}
+
+// create slug that is not used by other documents in any of paths (reserved slugs are not used too)
+export async function uniqueSlug(text: string, model: Model<any>, paths: string | string[], excludeId?: unknown, reserved: string[] = []) {
+    const base = slugify(text) || "item";
+    const isUsed = (slug: string) => model.exists({ $or: [paths].flat().map((path) => ({ [path]: slug })), _id: { $ne: excludeId } });
+
+    let slug = base;
+    for (let i = 2; reserved.includes(slug) || (await isUsed(slug)); i++) {
+        slug = `${base}-${i}`;
+    }
+
+    return slug;
+}
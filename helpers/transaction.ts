@@ -0,0 +1,22 @@
+import mongoose from "mongoose";
+
+// mongo error code when transactions are used on standalone server
+export const TRANSACTIONS_NOT_SUPPORTED_CODE = 20;
+
+// run work in transaction when database supports it (standalone servers run it without transaction)
+export async function withTransaction<T>(work: (session?: mongoose.ClientSession) => Promise<T>) {
+    const session = await mongoose.startSession();
+
+    try {
+        let result!: T;
+        await session.withTransaction(async () => {
+            result = await work(session);
+        });
+        return result;
+    } catch (error: any) {
+        if (error?.code !== TRANSACTIONS_NOT_SUPPORTED_CODE) throw error;
+        return work();
+    } finally {
+        await session.endSession();
+    }
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ETransferFormats } from "../types/transfer";
+import { parseCsv, parseJsonLines, parseRows, serializeRows, toCsv, toJsonLines } from "./transfer";
+
+describe("json lines", () => {
+    it("writes one row per line and reads it back", () => {
+        const rows = [{ title: "a", tags: ["x"] }, { title: "b" }];
+        assert.equal(toJsonLines(rows), '{"title":"a","tags":["x"]}\n{"title":"b"}');
+        assert.deepEqual(parseJsonLines(toJsonLines(rows) + "\r\n\n"), rows);
+    });
+
+    it("rejects rows that are not objects", () => {
+        assert.throws(() => parseJsonLines("[1]"), SyntaxError);
+        assert.throws(() => parseJsonLines("{bad"), SyntaxError);
+    });
+});
+
+describe("csv", () => {
+    it("writes columns of all rows and quotes cells", () => {
+        const date = new Date("2024-01-02T03:04:05.000Z");
+        const csv = toCsv([{ title: 'say "hi", bye', createdAt: date }, { title: "b", tags: ["x", "y"], empty: null }]);
+
+        assert.equal(csv, ['title,createdAt,tags,empty', '"say ""hi"", bye",2024-01-02T03:04:05.000Z,,', 'b,,"[""x"",""y""]",'].join("\n"));
+    });
+
+    it("writes object ids as text", () => {
+        const id = { toHexString: () => "0123", toString: () => "0123" };
+        assert.equal(toCsv([{ _id: id }]), "_id\n0123");
+    });
+
+    it("reads quoted cells with separators and new lines", () => {
+        assert.deepEqual(parseCsv('title,body\r\n"a, b","line 1\nline ""2"""\r\nc,d\r\n'), [
+            { title: "a, b", body: 'line 1\nline "2"' },
+            { title: "c", body: "d" },
+        ]);
+    });
+
+    it("leaves out empty cells and empty records", () => {
+        assert.deepEqual(parseCsv("title,body\n\na,\n"), [{ title: "a" }]);
+    });
+
+    it("parses json only in json columns", () => {
+        const csv = 'tags,title\n"[""x""]","[not json]"\n"{bad",b';
+        assert.deepEqual(parseCsv(csv, (column) => column === "tags"), [
+            { tags: ["x"], title: "[not json]" },
+            { tags: "{bad", title: "b" },
+        ]);
+        assert.deepEqual(parseCsv(csv)[0], { tags: '["x"]', title: "[not json]" });
+    });
+
+    it("rejects unclosed quotes", () => {
+        assert.throws(() => parseCsv('title\n"a'), SyntaxError);
+    });
+});
+
+describe("serializeRows/parseRows", () => {
+    it("round trips rows in each format", () => {
+        const rows = [{ title: "a", tags: ["x"] }];
+
+        assert.deepEqual(parseRows(serializeRows(rows, ETransferFormats.JSONL), ETransferFormats.JSONL), rows);
+        assert.deepEqual(parseRows(serializeRows(rows, ETransferFormats.CSV), ETransferFormats.CSV, (column) => column === "tags"), rows);
+    });
+});
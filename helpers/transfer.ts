@@ -0,0 +1,109 @@
+import { ETransferFormats, TUpsertKey } from "../types/transfer";
+
+type TRow = Record<string, any>;
+
+export const UPSERT_KEYS: TUpsertKey[] = ["slug", "_id"];
+
+// convert value to text of one csv cell
+function toCell(value: unknown) {
+    if (value === null || value === undefined) return "";
+
+    let text: string;
+    if (value instanceof Date) text = value.toISOString();
+    else if (typeof value === "object" && typeof (value as any).toHexString !== "function") text = JSON.stringify(value);
+    else text = String(value);
+
+    // quote cells that have separator, quote or new line
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// convert text of one csv cell to value (arrays and objects are stored as json)
+function fromCell(text: string, json: boolean) {
+    if (json && /^[\[{]/.test(text)) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+
+    return text;
+}
+
+export function toJsonLines(rows: TRow[]) {
+    return rows.map((row) => JSON.stringify(row)).join("\n");
+}
+
+export function toCsv(rows: TRow[]) {
+    // columns are all fields of rows in order of appearance
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+    return [columns.map(toCell).join(","), ...rows.map((row) => columns.map((column) => toCell(row[column])).join(","))].join("\n");
+}
+
+export function parseJsonLines(content: string) {
+    const rows: TRow[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+
+        const row = JSON.parse(line);
+        if (!row || typeof row !== "object" || Array.isArray(row)) throw new SyntaxError("row is not an object");
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+// only cells of json columns (like array, object and mixed fields) are parsed as json
+export function parseCsv(content: string, isJsonColumn: (column: string) => boolean = () => false) {
+    // split content to records of cells
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') quoted = false;
+            else cell += char;
+            continue;
+        }
+
+        if (char === '"') quoted = true;
+        else if (char === ",") {
+            record.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") i++;
+            record.push(cell);
+            records.push(record);
+            record = [];
+            cell = "";
+        } else cell += char;
+    }
+
+    if (quoted) throw new SyntaxError("unclosed quote");
+    if (cell || record.length) records.push([...record, cell]);
+
+    // first record is header (empty cells are left out of rows)
+    const [columns = [], ...values] = records.filter((record) => record.some((cell) => cell !== ""));
+    return values.map((record) =>
+        Object.fromEntries(
+            columns.flatMap((column, index) => (record[index] ? [[column, fromCell(record[index], isJsonColumn(column))]] : []))
+        ) as TRow
+    );
+}
+
+export function serializeRows(rows: TRow[], format: ETransferFormats) {
+    return format === ETransferFormats.CSV ? toCsv(rows) : toJsonLines(rows);
+}
+
+export function parseRows(content: string, format: ETransferFormats, isJsonColumn?: (column: string) => boolean) {
+    return format === ETransferFormats.CSV ? parseCsv(content, isJsonColumn) : parseJsonLines(content);
+}
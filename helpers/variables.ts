@@ -0,0 +1,51 @@
+import mongoose from "mongoose";
+import { EDocumentMSG } from "../messages/document";
+import { EFieldTypes, IPreFieldDef } from "../types/general";
+
+// names of custom fields are used in filter and sort paths
+export const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// field of document that stores values of custom fields
+export const VARIABLES_FIELD = "variables";
+
+export type TCastResult = { value: unknown; error?: undefined } | { value?: undefined; error: EDocumentMSG };
+
+// cast value of custom field to type of its definition
+export function castVariable(def: IPreFieldDef, value: unknown): TCastResult {
+    switch (def.type) {
+        case EFieldTypes.STRING:
+            if (!["string", "number", "boolean"].includes(typeof value)) return { error: EDocumentMSG.INVALID_FIELD_TYPE };
+            return { value: String(value) };
+        case EFieldTypes.NUMBER: {
+            const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+            if (typeof number !== "number" || !isFinite(number)) return { error: EDocumentMSG.INVALID_FIELD_TYPE };
+            return { value: number };
+        }
+        case EFieldTypes.BOOLEAN:
+            if (value === true || value === "true") return { value: true };
+            if (value === false || value === "false") return { value: false };
+            return { error: EDocumentMSG.INVALID_FIELD_TYPE };
+        case EFieldTypes.DATE: {
+            const date = value instanceof Date ? value : typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+            if (!date || isNaN(date.getTime())) return { error: EDocumentMSG.INVALID_FIELD_TYPE };
+            return { value: date };
+        }
+        case EFieldTypes.ENUM:
+            if (!def.options?.includes(String(value))) return { error: EDocumentMSG.INVALID_FIELD_VALUE };
+            return { value: String(value) };
+        case EFieldTypes.REFERENCE:
+            if (!mongoose.isValidObjectId(value)) return { error: EDocumentMSG.INVALID_FIELD_TYPE };
+            return { value: new mongoose.Types.ObjectId(String(value)) };
+        default:
+            return { error: EDocumentMSG.INVALID_FIELD_DEF };
+    }
+}
+
+// check if definition is complete for its type
+export function isValidFieldDef(def: Partial<IPreFieldDef>) {
+    if (!def.name || !FIELD_NAME_PATTERN.test(def.name)) return false;
+    if (!Object.values(EFieldTypes).includes(def.type as EFieldTypes)) return false;
+    if (def.type === EFieldTypes.ENUM && !def.options?.length) return false;
+
+    return true;
+}
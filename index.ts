@@ -1,21 +1,61 @@
 import mongoose, { Model } from "mongoose";
+import { EventEmitter } from "events";
 import User from "@/core/models/User";
-import { DocumentResult, EStates, IComment, IPreComment, IDocOptions, IDocumentResult, ECommentState, ICommentFilter } from "./types/general";
+import { DocumentResult, EStates, IComment, IPreComment, IDocOptions, IDocumentResult, ECommentState, ICategory, IPreCategory, ECategoryDeletePolicy, ICategoryTree, IDocumentFilter, EPaginationModes, IRevision, IRevisionDiff, IBulkModerateResult, ICommentThread, ECommentSort, ICommentReaction, IDocHooks, TDocHooks, EDocEvents, EAuditActions, IAuditEntry, IAuditFilter, IAuditTarget, EVisibility, IBulkResult, TBulkTarget, ETransferFormats, TUpsertKey, IImportResult, IJsonSchema, TPayloadMode, EFieldTypes, IFieldDef, IPreFieldDef, ERelationTypes, ERelationDeletePolicy, IRelatedDocument, IRelatedChange } from "./types/general";
 import { ERole } from "@/core/types/user";
 import { ConvertToNaturalNumber, GenerateSlug, findDocByIdentity, getPageData, handleModelErrors } from "@/core/helpers/general";
 import { permissionsCheck } from "@/core/helpers/auth";
 import { EResultTypes, EStatusCodes } from "@/core/types/general";
 import { EDocumentMSG } from "./messages/document";
 import { ECommentMSG } from "./messages/comment";
+import { ECategoryMSG } from "./messages/category";
+import { DEFAULT_MESSAGE_LOCALE, translateResult } from "./messages/catalog";
+import { CATEGORY_SORT_FIELDS, buildCategoryTree } from "./helpers/category";
+import { TEXT_INDEX_NOT_FOUND_CODE, escapeRegex, regexScoreExpression } from "./helpers/search";
+import { TFilterCast, parseFilter } from "./helpers/filter";
+import { DUPLICATE_KEY_CODE, MAX_VERSION_RETRIES, META_FIELDS, cleanSnapshot, diffSnapshots } from "./helpers/revision";
+import { COMMENT_CREATE_FIELDS, COMMENT_EDITABLE_FIELDS, COMMENT_FILTER_FIELDS, COMMENT_SORT_FIELDS, DOWN_VOTE, reactionStats } from "./helpers/comment";
+import { withTransaction } from "./helpers/transaction";
+import { parseRows, serializeRows } from "./helpers/transfer";
+import { toJsonSchema, validateJsonSchema } from "./helpers/schema";
+import { buildOpenApi, getDocOperations } from "./helpers/openapi";
+import { FIELD_NAME_PATTERN, VARIABLES_FIELD, castVariable, isValidFieldDef } from "./helpers/variables";
+import { getTranslatableFields, localeChain, localizeSchema, missingTranslations, resolveTranslations } from "./helpers/i18n";
+import { SLUG_META_FIELDS, slugify, uniqueSlug } from "./helpers/slug";
+import { TCursorDirection, TSortSpec, cursorFilter, decodeCursor, encodeCursor, parseSort, toMongoSort, withTieBreaker } from "./helpers/cursor";
 
 
 export default class Doc<IPreModel,IModel> {
   document: IDocOptions;
   Model: Model<any>;
   CommentModel?: Model<any>;
+  ReactionModel?: Model<any>;
   CategoryModel?: Model<any>;
+  RevisionModel?: Model<any>;
+  AuditModel?: Model<any>;
+  FieldDefModel?: Model<any>;
   result: DocumentResult<IModel>;
   commentResult : DocumentResult<IComment>;
+  categoryResult : DocumentResult<ICategory>;
+  revisionResult : DocumentResult<IRevision>;
+  fieldDefResult : DocumentResult<IFieldDef>;
+  events = new EventEmitter();
+  // fields that have value per locale
+  translatableFields: string[] = [];
+  // default locale of result messages (set by options, locale of request is given to translate)
+  readonly locale: string = DEFAULT_MESSAGE_LOCALE;
+  private hooks: { [K in keyof IDocHooks<IPreModel, IModel>]: IDocHooks<IPreModel, IModel>[K][] } = {
+    beforeCreate: [],
+    afterCreate: [],
+    beforeEdit: [],
+    afterEdit: [],
+    beforeDelete: [],
+    afterDelete: [],
+    beforeComment: [],
+    afterComment: [],
+  };
+  // all created Docs by docName (targets of relations)
+  private static docs = new Map<string, Doc<any, any>>();
 
   constructor(document: IDocOptions) {
     // processing permissions
@@ -37,38 +77,178 @@ export default class Doc<IPreModel,IModel> {
           role: document.permissions?.write ?? ERole.SELLER,
           public: true
         },
+        getRevisions: document.permissions?.advance?.getRevisions ?? document.permissions?.write ?? ERole.SELLER,
+        getTrash: document.permissions?.advance?.getTrash ?? document.permissions?.write ?? ERole.SELLER,
+        readPrivate: document.permissions?.advance?.readPrivate ?? document.permissions?.write ?? ERole.SELLER,
+        restore: document.permissions?.advance?.restore ?? {
+          role: document.permissions?.write ?? ERole.SELLER,
+          public: false
+        },
+        purge: document.permissions?.advance?.purge ?? {
+          role: document.permissions?.write ?? ERole.SELLER,
+          public: false
+        },
+        manageFields: document.permissions?.advance?.manageFields ?? document.permissions?.write ?? ERole.SELLER,
       },
     };
 
+    // processing category permissions
+    if (document.category?.enabled) {
+      const permissions = document.category.permissions
+      document.category.permissions = {
+        ...permissions,
+        advance: {
+          getAll: permissions?.advance?.getAll ?? permissions?.read ?? ERole.GEST,
+          getAllAndDocs: permissions?.advance?.getAllAndDocs ?? permissions?.read ?? ERole.GEST,
+          getOne: permissions?.advance?.getOne ?? permissions?.read ?? ERole.GEST,
+          create: permissions?.advance?.create ?? permissions?.write ?? ERole.SELLER,
+          use: permissions?.advance?.use ?? {
+            role: permissions?.write ?? ERole.SELLER,
+            public: true
+          },
+          edit: permissions?.advance?.edit ?? {
+            role: permissions?.write ?? ERole.SELLER,
+            public: true
+          },
+          delete: permissions?.advance?.delete ?? {
+            role: permissions?.write ?? ERole.SELLER,
+            public: false
+          },
+          manage: permissions?.advance?.manage ?? permissions?.write ?? ERole.SELLER,
+        },
+      };
+    }
+
     this.result = new DocumentResult<IModel>();
     this.commentResult = new DocumentResult<IComment>();
+    this.categoryResult = new DocumentResult<ICategory>();
+    this.revisionResult = new DocumentResult<IRevision>();
+    this.fieldDefResult = new DocumentResult<IFieldDef>();
     this.document = document;
+    this.locale = document.messages?.locale ?? DEFAULT_MESSAGE_LOCALE;
 
     this.Model = this.createModel(document);
 
     if (document.comments?.enabled) {
       this.CommentModel = this.createCommentsModel(document);
+
+      if (document.comments.reactions?.enabled) {
+        this.ReactionModel = this.createReactionModel(document);
+      }
     }
 
     if (document.category?.enabled) {
       this.CategoryModel = this.createCategoryModel(document);
     }
+
+    if (document.versioning?.enabled) {
+      this.RevisionModel = this.createRevisionModel(document);
+    }
+
+    if (document.options?.variable_data) {
+      this.FieldDefModel = this.createFieldDefModel(document);
+    }
+
+    if (document.audit?.enabled) {
+      this.AuditModel = this.createAuditModel(document);
+      this.enableAudit();
+    }
+
+    // register hooks of options
+    const hooks: TDocHooks<IPreModel, IModel> = document.hooks ?? {}
+    for (const name of Object.keys(hooks) as (keyof IDocHooks)[]) this.registerHooks(name, hooks[name])
+
+    Doc.docs.set(document.docName, this)
+  }
+
+  // add required role to error of failed role check (role is used in text of message)
+  private roleError<T>(result: T, role?: ERole): T {
+    return { ...result, params: { role } }
+  }
+
+  // add text of messages to result (locale of instance is used when locale is not given)
+  translate<T>(result: T, locale: string = this.locale): T {
+    return translateResult(result, locale, this.document.messages?.catalogs)
+  }
+
+  // register hook that runs before or after operation
+  on<K extends keyof IDocHooks<IPreModel, IModel>>(name: K, hook: IDocHooks<IPreModel, IModel>[K]) {
+    this.hooks[name].push(hook)
+    return this
+  }
+
+  // register hook or list of hooks of options
+  private registerHooks<K extends keyof IDocHooks<IPreModel, IModel>>(name: K, hooks: TDocHooks<IPreModel, IModel>[K]) {
+    const list = (Array.isArray(hooks) ? hooks : hooks ? [hooks] : []) as IDocHooks<IPreModel, IModel>[K][]
+    for (const hook of list) this.on(name, hook)
+  }
+
+  // run before hooks in order (stop at first error result)
+  private async runHooks<K extends keyof IDocHooks<IPreModel, IModel>>(name: K, ...args: Parameters<IDocHooks<IPreModel, IModel>[K]>) {
+    for (const hook of this.hooks[name]) {
+      const result = await (hook as (...args: unknown[]) => unknown)(...args)
+      if (result) return result as IDocumentResult<unknown>
+    }
+  }
+
+  // run all after hooks in order (errors of hooks don't change result of finished operation)
+  private async runAfterHooks<K extends keyof IDocHooks<IPreModel, IModel>>(name: K, ...args: Parameters<IDocHooks<IPreModel, IModel>[K]>) {
+    for (const hook of this.hooks[name]) {
+      try {
+        await (hook as (...args: unknown[]) => unknown)(...args)
+      } catch (error) {
+        this.reportError(name, error)
+      }
+    }
+  }
+
+  // publish domain event (errors of listeners don't change result of finished operation)
+  private emit(event: EDocEvents, data: unknown, userId?: string) {
+    try {
+      this.events.emit(event, { docName: this.document.docName, data, userId })
+    } catch (error) {
+      this.reportError(event, error)
+    }
+  }
+
+  // publish error of after hook, event listener, revision or audit log
+  private reportError(source: string, error: unknown) {
+    try {
+      this.events.emit(EDocEvents.ERROR, { docName: this.document.docName, data: { source, error } })
+    } catch {
+      // errors of error listeners are ignored
+    }
   }
 
 
   private createModel(document: IDocOptions) {
+    // replace translatable fields with value per locale
+    if (document.i18n) {
+      this.translatableFields = getTranslatableFields(document.databaseSchema)
+      document.databaseSchema = localizeSchema(document.databaseSchema, document.i18n.locales, document.i18n.defaultLocale)
+    }
+
     document.databaseSchema = {
       ...document.databaseSchema,
       state: {
         type: String,
         enum: Object.values(EStates),
         required: true,
-        default: EStates.PUBLISHED,
+        default: document.lifecycle?.defaultState ?? EStates.PUBLISHED,
+      },
+      // drafts will be published automatically after this time
+      publishAt: {
+        type: Date,
       },
     };
 
-    // add slug
-    if (document.slugBase) {
+    // add slug (slug per locale when base field is translatable)
+    if (document.slugBase && this.hasLocalizedSlug()) {
+      document.databaseSchema = {
+        ...document.databaseSchema,
+        slug: Object.fromEntries(document.i18n!.locales.map((locale) => [locale, { type: String }])),
+      };
+    } else if (document.slugBase) {
       document.databaseSchema = {
         ...document.databaseSchema,
         slug: {
@@ -78,6 +258,21 @@ export default class Doc<IPreModel,IModel> {
       };
     }
 
+    // locked slugs are not changed with base field and old slugs are kept for redirects
+    // (slugs per locale are locked in their locale)
+    if (document.slugBase) {
+      document.databaseSchema = {
+        ...document.databaseSchema,
+        slugLocked: this.hasLocalizedSlug()
+          ? Object.fromEntries(document.i18n!.locales.map((locale) => [locale, { type: Boolean, default: false }]))
+          : { type: Boolean, default: false },
+        slugHistory: {
+          type: [String],
+          default: [],
+        },
+      };
+    }
+
     // add category
     if (document.category?.enabled) {
       document.databaseSchema = {
@@ -89,6 +284,71 @@ export default class Doc<IPreModel,IModel> {
       };
     }
 
+    // add visibility of private documents
+    if (document.options?.private_option) {
+      document.databaseSchema = {
+        ...document.databaseSchema,
+        visibility: {
+          type: String,
+          enum: Object.values(EVisibility),
+          default: EVisibility.PUBLIC,
+        },
+        sharedWith: {
+          users: {
+            type: [mongoose.Types.ObjectId],
+            ref: "User",
+          },
+          roles: {
+            type: Array,
+          },
+        },
+      };
+    }
+
+    // add values of custom fields
+    if (document.options?.variable_data) {
+      document.databaseSchema = {
+        ...document.databaseSchema,
+        [VARIABLES_FIELD]: {
+          type: mongoose.Schema.Types.Mixed,
+          default: {},
+        },
+      };
+    }
+
+    // add fields that keep ids of related documents
+    for (const [name, relation] of Object.entries(document.relations ?? {})) {
+      // deleting one of many targets can't delete whole document
+      if (relation.field && relation.type === ERelationTypes.MANY && relation.onDelete === ERelationDeletePolicy.CASCADE) {
+        throw new Error(`cascade delete is not allowed for many relation "${name}", use nullify or restrict`)
+      }
+
+      if (!relation.field || document.databaseSchema[relation.field]) continue
+
+      document.databaseSchema = {
+        ...document.databaseSchema,
+        [relation.field]: {
+          type: relation.type === ERelationTypes.MANY ? [mongoose.Types.ObjectId] : mongoose.Types.ObjectId,
+          ref: relation.target,
+        },
+      };
+    }
+
+    // add soft delete fields
+    if (document.softDelete?.enabled) {
+      document.databaseSchema = {
+        ...document.databaseSchema,
+        deletedAt: {
+          type: Date,
+          default: null,
+        },
+        deletedBy: {
+          type: mongoose.Types.ObjectId,
+          ref: "User",
+        },
+      };
+    }
+
     // add authorId if document need user registration (gests can't create document)
     if (document.permissions?.advance?.create !== ERole.GEST) {
       document.databaseSchema = {
@@ -103,21 +363,78 @@ export default class Doc<IPreModel,IModel> {
     // create schema
     const schema = new mongoose.Schema(document.databaseSchema,{ timestamps:true });
 
-    if (document.slugBase) {
-      schema.pre("save", async function (this: any, next: Function) {        
-        this.slug = await GenerateSlug(this, mongoose.models[document.docName])
+    if (document.slugBase && this.hasLocalizedSlug()) {
+      const slugBase = document.slugBase
+
+      // create slug for translations that don't have slug
+      schema.pre("save", async function (this: any, next: Function) {
+        // slugs of bulk created documents are created before save
+        if (this.$locals.slugsReady) return next()
+
+        for (const locale of document.i18n!.locales) {
+          // slugs that are set by hand are locked
+          if (this.isNew && this.get(`slug.${locale}`)) {
+            this.set(`slug.${locale}`, slugify(this.get(`slug.${locale}`)))
+            this.set(`slugLocked.${locale}`, true)
+          }
+
+          const text = this.get(`${slugBase}.${locale}`)
+          if (!text || this.get(`slug.${locale}`)) continue
+
+          // slugs of all locales are unique so documents are found by slug of any locale
+          const paths = document.i18n!.locales.map((slugLocale) => `slug.${slugLocale}`)
+          this.set(`slug.${locale}`, await uniqueSlug(text, mongoose.models[document.docName], paths, this._id))
+        }
+        next()
+      })
+
+      for (const locale of document.i18n!.locales) schema.index({ [`slug.${locale}`]: 1 }, { unique: true, sparse: true })
+    } else if (document.slugBase) {
+      const slugBase = document.slugBase
+
+      schema.pre("save", async function (this: any, next: Function) {
+        // slugs of bulk created documents are created before save
+        if (this.$locals.slugsReady) return next()
+
+        // slugs that are set by hand are locked
+        if (this.isNew && this.slug) {
+          this.slug = slugify(this.slug)
+          this.slugLocked = true
+        }
+
+        // create slug for new documents and when base field changes
+        if (!this.slugLocked && (this.isNew || this.isModified(slugBase))) {
+          const slug = await GenerateSlug(this, mongoose.models[document.docName])
+          if (this.slug && this.slug !== slug) this.slugHistory.addToSet(this.slug)
+          this.slug = slug
+        }
         next()
       })
     }
 
+    if (document.slugBase) schema.index({ slugHistory: 1 });
+
     // add indexes
     document.indexing?.map((index) => schema.index(index));
+    schema.index({ state: 1, publishAt: 1 });
+    if (document.options?.private_option) schema.index({ visibility: 1, authorId: 1 });
+
+    // add text index for search
+    if (document.searchOn?.length) {
+      // mongo allows only one text index in collection
+      const textIndex = schema.indexes().find(([fields]) => Object.values(fields).includes("text"))
+      if (textIndex) {
+        throw new Error(`text index on ${Object.keys(textIndex[0]).join(", ")} conflicts with search index of searchOn, remove it from indexing or add its fields to searchOn`)
+      }
+
+      schema.index(Object.fromEntries(this.getSearchFields().map((field) => [field, "text"])), { name: document.docName.toLowerCase() + "_search" });
+    }
 
     // add comments virtual
     if (document.comments?.enabled) {
       schema.virtual("comments", {
         ref: document.docName + "_Comment",
-        foreignField: document.docName.toLowerCase(),
+        foreignField: "document",
         localField: "_id",
       });
     }
@@ -165,14 +482,55 @@ export default class Doc<IPreModel,IModel> {
           enum: ["accepted", "waiting", "rejected", "parent_deleted"],
           default: document.comments?.needToVerify ? "waiting" : "accepted",
         },
+        rejectReason: {
+          type: String,
+        },
+        moderatedBy: {
+          type: mongoose.Types.ObjectId,
+          ref: "User",
+        },
+        moderatedAt: {
+          type: Date,
+        },
+        reactionCounts: {
+          type: Map,
+          of: Number,
+          default: {},
+        },
+        score: {
+          type: Number,
+          default: 0,
+        },
+        rank: {
+          type: Number,
+          default: 0,
+        },
       },
       {
         timestamps: true,
       }
     );
 
+    // add soft delete fields
+    if (document.softDelete?.enabled) {
+      schema.add({
+        deletedAt: {
+          type: Date,
+          default: null,
+        },
+        deletedBy: {
+          type: mongoose.Types.ObjectId,
+          ref: "User",
+        },
+      });
+    }
+
     // add index
-    schema.index({ [document.docName.toLowerCase()]: 1, user: 1 });
+    schema.index({ document: 1, user: 1 });
+    schema.index({ document: 1, parent: 1, state: 1 });
+    schema.index({ document: 1, score: -1 });
+    schema.index({ document: 1, rank: -1 });
+    schema.index({ state: 1, createdAt: 1 });
 
     // add virtual for replies
     schema.virtual("children", {
@@ -184,6 +542,36 @@ export default class Doc<IPreModel,IModel> {
     return mongoose.model<IComment>(document.docName + "_Comment", schema);
   }
 
+  private createReactionModel(document: IDocOptions) {
+    const schema = new mongoose.Schema(
+      {
+        comment: {
+          type: mongoose.Types.ObjectId,
+          ref: document.docName + "_Comment",
+          required: true,
+        },
+        user: {
+          type: mongoose.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        type: {
+          type: String,
+          enum: document.comments?.reactions?.types ?? ["up", DOWN_VOTE],
+          required: true,
+        },
+      },
+      {
+        timestamps: true,
+      }
+    );
+
+    // one reaction per user per comment
+    schema.index({ comment: 1, user: 1 }, { unique: true });
+
+    return mongoose.model<ICommentReaction>(document.docName + "_CommentReaction", schema);
+  }
+
   private createCategoryModel(document: IDocOptions) {
     // create schema
     const schema = new mongoose.Schema(
@@ -196,6 +584,15 @@ export default class Doc<IPreModel,IModel> {
           type: String,
           unique: true,
         },
+        // locked slugs are not changed with name and old slugs are kept for redirects
+        slugLocked: {
+          type: Boolean,
+          default: false,
+        },
+        slugHistory: {
+          type: [String],
+          default: [],
+        },
         mother: {
           type: mongoose.Types.ObjectId,
           ref: document.docName + "_Category",
@@ -211,12 +608,34 @@ export default class Doc<IPreModel,IModel> {
       }
     );
 
+    // add authorId if categories need user registration (gests can't create category)
+    if (document.category?.permissions?.advance?.create !== ERole.GEST) {
+      schema.add({
+        authorId: {
+          type: mongoose.Types.ObjectId,
+          ref: "User",
+        },
+      });
+    }
+
     schema.pre("save",async function (this: any, next: Function) {
-      this.slug = await GenerateSlug(this, mongoose.models[document.docName + "_Category"])
+      // slugs that are set by hand are locked
+      if (this.isNew && this.slug) {
+        this.slug = slugify(this.slug)
+        this.slugLocked = true
+      }
+
+      // create slug for new categories and when name changes
+      if (!this.slugLocked && (this.isNew || this.isModified("name"))) {
+        const slug = await GenerateSlug(this, mongoose.models[document.docName + "_Category"])
+        if (this.slug && this.slug !== slug) this.slugHistory.addToSet(this.slug)
+        this.slug = slug
+      }
       next()
     })
 
     schema.index({ slug: 1 });
+    schema.index({ slugHistory: 1 });
 
     // add document(s) virtual
     schema.virtual(document.docName.toLowerCase() + "s", {
@@ -229,358 +648,3904 @@ export default class Doc<IPreModel,IModel> {
   }
 
 
-  async getAll(page: number, limit: number, { sort = ["-createdAt"], userId }: { sort?: string[]; userId?: string }) {
-    let user = null;
-    // check to see who can get all documents
-    if (this.document.permissions?.advance?.getAll !== ERole.GEST) {
-      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+  private createFieldDefModel(document: IDocOptions) {
+    const schema = new mongoose.Schema(
+      {
+        name: {
+          type: String,
+          required: true,
+          unique: true,
+          match: FIELD_NAME_PATTERN,
+        },
+        label: {
+          type: String,
+        },
+        type: {
+          type: String,
+          enum: Object.values(EFieldTypes),
+          required: true,
+        },
+        required: {
+          type: Boolean,
+          default: false,
+        },
+        options: {
+          type: [String],
+        },
+        ref: {
+          type: String,
+        },
+        categories: {
+          type: [mongoose.Types.ObjectId],
+          ref: document.docName + "_Category",
+        },
+        filterable: {
+          type: Boolean,
+          default: false,
+        },
+        sortable: {
+          type: Boolean,
+          default: false,
+        },
+      },
+      {
+        timestamps: true,
+      }
+    );
 
-      user = await User.findById(userId);
+    schema.index({ categories: 1 });
 
-      // if user don't have perm return error
-      if (!permissionsCheck(this.document.permissions?.advance?.getAll, user?.role)) {
-        return this, this.result.singleError("user", EDocumentMSG.NO_PERMISSION);
-      }
-    }
+    return mongoose.model<IFieldDef>(document.docName + "_FieldDef", schema);
+  }
 
-    // validate page and limit
-    page = ConvertToNaturalNumber(page);
-    limit = ConvertToNaturalNumber(limit);
+  private createRevisionModel(document: IDocOptions) {
+    const schema = new mongoose.Schema(
+      {
+        document: {
+          type: mongoose.Types.ObjectId,
+          ref: document.docName,
+          required: true,
+        },
+        version: {
+          type: Number,
+          required: true,
+        },
+        editor: {
+          type: mongoose.Types.ObjectId,
+          ref: "User",
+        },
+        snapshot: {
+          type: mongoose.Schema.Types.Mixed,
+          required: true,
+        },
+        changedFields: {
+          type: [String],
+          default: [],
+        },
+      },
+      {
+        timestamps: { createdAt: true, updatedAt: false },
+      }
+    );
 
-    // generate skip
-    const skip = (page - 1) * limit;
+    // add index
+    schema.index({ document: 1, version: -1 }, { unique: true });
 
-    // generate filter object for mongoose
-    let filter: { state?: EStates } = {
-      state: EStates.PUBLISHED,
-    };
+    return mongoose.model<IRevision>(document.docName + "_Revision", schema);
+  }
 
-    // check to see how can see drafts
-    if (this.document.permissions?.advance?.getDrafts?.role === ERole.GEST) {
-      filter = {};
-    } else if (userId) {
-      if (!user) user = await User.findById(userId);
-      if (permissionsCheck(this.document.permissions?.advance?.getDrafts?.role, user?.role)) {
-        filter = {};
+  private createAuditModel(document: IDocOptions) {
+    const schema = new mongoose.Schema(
+      {
+        actor: {
+          type: mongoose.Types.ObjectId,
+          ref: "User",
+        },
+        role: {
+          type: String,
+        },
+        action: {
+          type: String,
+          enum: Object.values(EAuditActions),
+          required: true,
+        },
+        target: {
+          type: String,
+        },
+        changedFields: {
+          type: [String],
+          default: [],
+        },
+        succeeded: {
+          type: Boolean,
+          required: true,
+        },
+        status: {
+          type: Number,
+        },
+        message: {
+          type: String,
+        },
+      },
+      {
+        timestamps: { createdAt: true, updatedAt: false },
       }
-    }
+    );
 
-    try {
-      // get document
-      const doc = await this.Model.find(filter).sort(sort.join(" ")).skip(skip).limit(limit);
+    // add indexes
+    schema.index({ actor: 1, createdAt: -1 });
+    schema.index({ target: 1, createdAt: -1 });
+    schema.index({ action: 1, createdAt: -1 });
 
-      // get total number of documents
-      const totalArticles = await this.Model.countDocuments(filter);
+    // remove old entries base on retention policy
+    if (document.audit?.retentionDays) {
+      schema.index({ createdAt: 1 }, { expireAfterSeconds: document.audit.retentionDays * 24 * 60 * 60 });
+    } else {
+      schema.index({ createdAt: -1 });
+    }
 
-      // get page data
+    return mongoose.model<IAuditEntry>(document.docName + "_Audit", schema);
+  }
+
+  // wrap mutating operations so their results are written to audit log
+  private enableAudit() {
+    // errors of audit log don't change result of operation
+    const audit = async (action: EAuditActions, target: IAuditTarget, result: unknown) => {
+      try {
+        await this.writeAudit(action, target, result)
+      } catch (error) {
+        this.reportError("audit", error)
+      }
+    }
+
+    const audited = <TArgs extends unknown[], TResult>(
+      operation: (...args: TArgs) => Promise<TResult>,
+      action: EAuditActions,
+      describe: (...args: TArgs) => IAuditTarget
+    ) =>
+      async (...args: TArgs): Promise<TResult> => {
+        let result: TResult
+        try {
+          result = await operation(...args)
+        } catch (error) {
+          // operations that throw are written as failed
+          await audit(action, describe(...args), { message: (error as Error)?.message })
+          throw error
+        }
+
+        await audit(action, describe(...args), result)
+        return result
+      }
+
+    const fields = (data: unknown) => (data && typeof data === "object" ? Object.keys(data) : [])
+
+    this.create = audited(this.create.bind(this), EAuditActions.DOCUMENT_CREATE, (data, authorId) => ({ actorId: authorId, changedFields: fields(data) }))
+    this.edit = audited(this.edit.bind(this), EAuditActions.DOCUMENT_EDIT, (identity, data, editorId) => ({ actorId: editorId, targets: [identity], changedFields: fields(data) }))
+    this.delete = audited(this.delete.bind(this), EAuditActions.DOCUMENT_DELETE, (identity, userId) => ({ actorId: userId?.toString(), targets: [identity] }))
+    this.restore = audited(this.restore.bind(this), EAuditActions.DOCUMENT_RESTORE, (identity, userId) => ({ actorId: userId, targets: [identity] }))
+    this.purge = audited(this.purge.bind(this), EAuditActions.DOCUMENT_PURGE, (identity, userId) => ({ actorId: userId, targets: [identity] }))
+    this.bulkCreate = audited(this.bulkCreate.bind(this), EAuditActions.DOCUMENT_CREATE, (items, authorId) => ({ actorId: authorId, changedFields: fields(items[0]) }))
+    this.bulkEdit = audited(this.bulkEdit.bind(this), EAuditActions.DOCUMENT_EDIT, (target, patch, editorId) => ({ actorId: editorId, changedFields: fields(patch) }))
+    this.bulkDelete = audited(this.bulkDelete.bind(this), EAuditActions.DOCUMENT_DELETE, (target, userId) => ({ actorId: userId }))
+
+    this.Comment.approve = audited(this.Comment.approve, EAuditActions.COMMENT_APPROVE, (commentId, userId) => ({ actorId: userId, targets: [commentId], changedFields: ["state"] }))
+    this.Comment.reject = audited(this.Comment.reject, EAuditActions.COMMENT_REJECT, (commentId, userId) => ({ actorId: userId, targets: [commentId], changedFields: ["state"] }))
+    this.Comment.bulkModerate = audited(this.Comment.bulkModerate, EAuditActions.COMMENT_MODERATE, (ids, state, userId) => ({ actorId: userId, targets: ids, changedFields: ["state"] }))
+    this.Comment.restore = audited(this.Comment.restore, EAuditActions.COMMENT_RESTORE, (commentId, userId) => ({ actorId: userId, targets: [commentId] }))
+    this.Comment.purge = audited(this.Comment.purge, EAuditActions.COMMENT_PURGE, (commentId, userId) => ({ actorId: userId, targets: [commentId] }))
+
+    this.Category.create = audited(this.Category.create, EAuditActions.CATEGORY_CREATE, (data, authorId) => ({ actorId: authorId, changedFields: fields(data) }))
+    this.Category.edit = audited(this.Category.edit, EAuditActions.CATEGORY_EDIT, (identity, data, editorId) => ({ actorId: editorId, targets: [identity], changedFields: fields(data) }))
+    this.Category.delete = audited(this.Category.delete, EAuditActions.CATEGORY_DELETE, (identity, userId) => ({ actorId: userId, targets: [identity] }))
+  }
+
+  // write result of operation to audit log
+  private async writeAudit(action: EAuditActions, { actorId, targets, changedFields = [] }: IAuditTarget, operationResult: unknown) {
+    if (!this.AuditModel || !operationResult || typeof operationResult !== "object" || operationResult instanceof Error) return
+
+    // results of thrown operations only have message of error
+    const result = operationResult as Omit<IDocumentResult<unknown>, "message"> & { message?: string }
+    const data = result.data as Record<string, unknown> | undefined
+
+    const actor = actorId && mongoose.isValidObjectId(actorId) ? await User.findById(actorId) : null
+    const entry = {
+      actor: actor?._id,
+      role: actor?.role,
+      action,
+      changedFields,
+      succeeded: result.type === EResultTypes.SUCCESS,
+      status: result.status,
+      message: result.message,
+    }
+
+    // bulk comment moderation has own result for every target
+    const moderateReport = data?.moderated && data?.failed ? (data as unknown as IBulkModerateResult) : null
+    if (moderateReport) {
+      await this.AuditModel.insertMany([
+        ...moderateReport.moderated.map((target) => ({ ...entry, target })),
+        ...moderateReport.failed.map(({ id, message }) => ({ ...entry, target: id, succeeded: false, message })),
+      ])
+      return
+    }
+
+    // bulk document operations have own result for every item
+    const bulkReport = data?.succeeded && data?.failed ? (data as unknown as IBulkResult) : null
+    if (bulkReport) {
+      await this.AuditModel.insertMany([
+        ...bulkReport.succeeded.map(({ id, message }) => ({ ...entry, target: id, message })),
+        ...bulkReport.failed.map(({ id, message }) => ({ ...entry, target: id, succeeded: false, message })),
+      ])
+      return
+    }
+
+    // use id of created document when there is no target
+    const resultTarget = data?._id ? String(data._id) : undefined
+    await this.AuditModel.insertMany((resultTarget ? [resultTarget] : targets ?? [undefined]).map((target) => ({ ...entry, target })))
+  }
+
+  // store snapshot of document as new revision
+  // (document is already saved so errors of revisions don't change result of operation)
+  private async saveRevision(doc: any, editorId: string | undefined, changedFields: string[]) {
+    if (!this.RevisionModel || !this.document.versioning?.enabled) return
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        // get next version number
+        const lastRevision = await this.RevisionModel.findOne({ document: doc._id }).sort({ version: -1 })
+        const version = (lastRevision?.version ?? 0) + 1
+
+        try {
+          await this.RevisionModel.create({
+            document: doc._id,
+            version,
+            editor: editorId,
+            snapshot: cleanSnapshot(doc.toObject({ depopulate: true })),
+            changedFields,
+          })
+        } catch (error: any) {
+          // concurrent edit saved same version
+          if (error?.code === DUPLICATE_KEY_CODE && attempt < MAX_VERSION_RETRIES) continue
+          throw error
+        }
+
+        // remove oldest revisions
+        const maxRevisions = this.document.versioning.maxRevisions
+        if (maxRevisions && version > maxRevisions) {
+          await this.RevisionModel.deleteMany({ document: doc._id, version: { $lte: version - maxRevisions } })
+        }
+        return
+      }
+    } catch (error) {
+      this.reportError("revision", error)
+    }
+  }
+
+  // filter of published documents (drafts that their publish time has come are read as published)
+  private publishedFilter() {
+    return { $or: [{ state: EStates.PUBLISHED }, { state: EStates.DRAFT, publishAt: { $lte: new Date() } }] }
+  }
+
+  // save state of drafts that their publish time has come (call it from a scheduled job)
+  async publishScheduled() {
+    try {
+      const docs = await this.Model.find({ state: EStates.DRAFT, publishAt: { $lte: new Date() }, ...this.notDeletedFilter() })
+
+      for (const doc of docs) {
+        doc.state = EStates.PUBLISHED
+        doc.publishAt = undefined
+        await doc.save()
+
+        await this.saveRevision(doc, undefined, ["state", "publishAt"])
+        this.emit(EDocEvents.DOCUMENT_EDITED, doc)
+      }
+
+      return this.result.success(docs, EDocumentMSG.SUCCESS_EDIT, EStatusCodes.SUCCESS)
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+  }
+
+  // check state change of data (publish time of drafts counts as publishing)
+  private checkStateChange(from: EStates, data: Record<string, any>, user: any) {
+    if ("state" in data) {
+      const stateError = this.checkStateTransition(from, data.state as EStates, user)
+      if (stateError) return stateError
+    }
+
+    if (data.publishAt !== undefined && data.publishAt !== null) {
+      return this.checkStateTransition((data.state as EStates) ?? from, EStates.PUBLISHED, user)
+    }
+  }
+
+  // check if user can move document from one state to another
+  private checkStateTransition(from: EStates, to: EStates, user: any) {
+    const transitions = this.document.lifecycle?.transitions
+    if (!transitions || from === to) return
+
+    // check if transition is defined
+    const role = transitions[from]?.[to]
+    if (!role) return this.result.singleError("state", EDocumentMSG.STATE_TRANSITION_NOT_ALLOWED)
+
+    // check if user has role needed for transition
+    if (role !== ERole.GEST && !permissionsCheck(role, user?.role)) {
+      return this.result.singleError("state", EDocumentMSG.STATE_TRANSITION_NOT_ALLOWED, EStatusCodes.FORBIDDEN)
+    }
+  }
+
+  // check if user can change state of comment
+  private async canModerateComment(comment: any, user: any) {
+    const permissions = this.document.comments?.canVerify
+    if (!permissionsCheck(permissions?.role, user?.role)) return false
+
+    // check to see if verifiers can moderate comments of other's documents
+    if (!permissions?.public) {
+      const document = await this.Model.findById(comment.document)
+      if (document?.authorId?.toString() !== user?.id) return false
+    }
+
+    return true
+  }
+
+  // check if user can see comments of every state
+  private canVerifyComments(user: any) {
+    return !!user && permissionsCheck(this.document.comments?.canVerify.role, user.role)
+  }
+
+  // check if user can read document of comments (drafts, deleted and private documents)
+  private async canReadDocument(documentId: unknown, userId?: string, user: any = null) {
+    return !!(await this.Model.exists({ _id: documentId, ...(await this.getReadFilter(userId, user)) }))
+  }
+
+  // change state of one comment
+  private async moderateComment(commentId: string, userId: string, state: ECommentState, reason?: string) {
+    if (!this.CommentModel) return this.commentResult.singleError("comment", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+    // check if user exist
+    const user = await User.findById(userId);
+    if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+    // check if comment exist
+    const comment = await this.CommentModel.findOne({ _id: commentId, ...this.notDeletedFilter() })
+    if (!comment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+
+    // check moderator permission
+    if (!(await this.canModerateComment(comment, user))) {
+      return this.commentResult.singleError("user", ECommentMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN);
+    }
+
+    try {
+      comment.state = state
+      comment.rejectReason = state === ECommentState.REJECTED ? reason : undefined
+      comment.moderatedBy = user._id
+      comment.moderatedAt = new Date()
+      await comment.save()
+
+      this.emit(state === ECommentState.ACCEPTED ? EDocEvents.COMMENT_ACCEPTED : EDocEvents.COMMENT_REJECTED, comment, user.id)
+
+      const message = state === ECommentState.ACCEPTED ? ECommentMSG.SUCCESS_APPROVE : ECommentMSG.SUCCESS_REJECT
+      return this.commentResult.success(comment, message, EStatusCodes.SUCCESS);
+    } catch (error) {
+      return handleModelErrors(error);
+    }
+  }
+
+  // load accepted replies of comments as nested tree up to max depth
+  private async loadCommentThread(comments: any[], maxDepth: number) {
+    const roots: ICommentThread[] = comments.map((comment) => ({ ...comment.toObject(), children: [], repliesCount: 0, hasMoreReplies: false }))
+    const repliesFilter = { state: ECommentState.ACCEPTED, ...this.notDeletedFilter() }
+
+    // load replies level by level
+    let level = roots
+    for (let depth = 1; depth < maxDepth && level.length; depth++) {
+      const replies = await this.CommentModel!.find({ ...repliesFilter, parent: { $in: level.map((comment) => comment._id) } }).sort({ createdAt: 1 })
+
+      const nextLevel: ICommentThread[] = []
+      for (const reply of replies) {
+        const node: ICommentThread = { ...reply.toObject(), children: [], repliesCount: 0, hasMoreReplies: false }
+        const parent = level.find((comment) => comment._id.equals(reply.parent))
+        parent?.children.push(node)
+        nextLevel.push(node)
+      }
+
+      level.forEach((comment) => (comment.repliesCount = comment.children.length))
+      level = nextLevel
+    }
+
+    // mark deepest comments that have more replies
+    if (level.length) {
+      const counts: { _id: mongoose.Types.ObjectId; count: number }[] = await this.CommentModel!.aggregate([
+        { $match: { ...repliesFilter, parent: { $in: level.map((comment) => comment._id) } } },
+        { $group: { _id: "$parent", count: { $sum: 1 } } },
+      ])
+
+      for (const { _id, count } of counts) {
+        const comment = level.find((comment) => comment._id.equals(_id))
+        if (!comment) continue
+        comment.repliesCount = count
+        comment.hasMoreReplies = true
+      }
+    }
+
+    return roots
+  }
+
+  // convert comment sort to mongo sort
+  private getCommentSort(sort: ECommentSort): Record<string, 1 | -1> {
+    switch (sort) {
+      case ECommentSort.SCORE:
+        return { score: -1, createdAt: -1 }
+      case ECommentSort.BEST:
+        return { rank: -1, createdAt: -1 }
+      default:
+        return { createdAt: -1 }
+    }
+  }
+
+  // recalculate reaction counts, score and rank of comment
+  private async updateCommentReactions(commentId: mongoose.Types.ObjectId) {
+    const counts: { _id: string; count: number }[] = await this.ReactionModel!.aggregate([
+      { $match: { comment: commentId } },
+      { $group: { _id: "$type", count: { $sum: 1 } } },
+    ])
+
+    const reactionCounts = Object.fromEntries(counts.map(({ _id, count }) => [_id, count]))
+    return this.CommentModel!.findByIdAndUpdate(commentId, { reactionCounts, ...reactionStats(reactionCounts) }, { new: true })
+  }
+
+  // filter that hides soft deleted documents and comments
+  private notDeletedFilter(): { deletedAt?: null } {
+    return this.document.softDelete?.enabled ? { deletedAt: null } : {}
+  }
+
+  // generate filter of private documents that user can see
+  private getVisibilityFilter(user: any) {
+    const readPrivate = this.document.permissions?.advance?.readPrivate
+    if (!this.document.options?.private_option || (user && permissionsCheck(readPrivate, user.role))) return
+
+    const conditions: Record<string, any>[] = [{ visibility: EVisibility.PUBLIC }, { visibility: { $exists: false } }]
+    if (user) {
+      // documents shared with a role are visible to users that have that role (or higher)
+      const roles = Object.values(ERole).filter((role) => permissionsCheck(role, user.role))
+
+      conditions.push(
+        { authorId: user._id },
+        { visibility: EVisibility.SHARED, "sharedWith.users": user._id },
+        { visibility: EVisibility.SHARED, "sharedWith.roles": { $in: roles } }
+      )
+    }
+
+    return { $or: conditions }
+  }
+
+  // generate filter of documents that user can read (drafts, deleted and private documents)
+  private async getReadFilter(userId?: string, user: any = null) {
+    if (!user && userId) user = await User.findById(userId);
+
+    const filter: { deletedAt?: null; $and?: Record<string, any>[] } = this.notDeletedFilter();
+    const conditions: Record<string, any>[] = [];
+
+    // check to see how can see drafts
+    const draftsRole = this.document.permissions?.advance?.getDrafts?.role
+    if (draftsRole !== ERole.GEST && !(user && permissionsCheck(draftsRole, user.role))) {
+      conditions.push(this.publishedFilter())
+    }
+
+    // hide private documents
+    const visibilityFilter = this.getVisibilityFilter(user)
+    if (visibilityFilter) conditions.push(visibilityFilter)
+
+    if (conditions.length) filter.$and = conditions
+
+    return filter;
+  }
+
+  // get ids of all sub categories of category (in any depth)
+  private async getCategoryDescendants(categoryId: mongoose.Types.ObjectId | string) {
+    if (!this.CategoryModel) return []
+
+    const [category] = await this.CategoryModel.aggregate([
+      { $match: { _id: new mongoose.Types.ObjectId(categoryId.toString()) } },
+      {
+        $graphLookup: {
+          from: this.CategoryModel.collection.name,
+          startWith: "$_id",
+          connectFromField: "_id",
+          connectToField: "mother",
+          as: "descendants",
+        },
+      },
+    ])
+
+    return (category?.descendants ?? []).map((descendant: ICategory) => descendant._id) as mongoose.Types.ObjectId[]
+  }
+
+  // get all mothers of category ordered from root to direct mother
+  private async getCategoryAncestors(categoryId: mongoose.Types.ObjectId | string) {
+    if (!this.CategoryModel) return []
+
+    const [category] = await this.CategoryModel.aggregate([
+      { $match: { _id: new mongoose.Types.ObjectId(categoryId.toString()) } },
+      {
+        $graphLookup: {
+          from: this.CategoryModel.collection.name,
+          startWith: "$mother",
+          connectFromField: "mother",
+          connectToField: "_id",
+          as: "ancestors",
+          depthField: "depth",
+        },
+      },
+    ])
+
+    const ancestors: (ICategory & { depth: number })[] = category?.ancestors ?? []
+    return ancestors.sort((a, b) => b.depth - a.depth).map(({ depth, ...ancestor }) => ancestor as ICategory)
+  }
+
+  // get fields that user can't read
+  private async getHiddenFields(userId?: string, user: any = null) {
+    const fieldPermissions = Object.entries(this.document.fieldPermissions ?? {}).filter(([, { read }]) => read && read !== ERole.GEST)
+    if (!fieldPermissions.length) return []
+
+    if (!user && userId) user = await User.findById(userId)
+    return fieldPermissions.filter(([, { read }]) => !permissionsCheck(read, user?.role)).map(([field]) => field)
+  }
+
+  // remove fields that user can't read from document of result
+  private async hideFields(doc: any, userId?: string, user: any = null) {
+    const hiddenFields = await this.getHiddenFields(userId, user)
+    if (!doc || !hiddenFields.length) return doc
+
+    const data = typeof doc.toObject === "function" ? doc.toObject() : { ...doc }
+    for (const field of hiddenFields) delete data[field]
+    return data
+  }
+
+  // generate mongoose projection that removes hidden fields
+  private getProjection(hiddenFields: string[]) {
+    return Object.fromEntries(hiddenFields.map((field) => [field, 0]))
+  }
+
+  // check if user can write all fields of data
+  private async checkWritableFields(data: unknown, userId?: string, user: any = null) {
+    if (!data || typeof data !== "object") return
+
+    for (const field of Object.keys(data)) {
+      const role = this.document.fieldPermissions?.[field]?.write
+      if (!role || role === ERole.GEST) continue
+
+      if (!user && userId) user = await User.findById(userId)
+      if (!permissionsCheck(role, user?.role)) {
+        return this.result.singleError(field, EDocumentMSG.FIELD_NOT_WRITABLE, EStatusCodes.FORBIDDEN)
+      }
+    }
+  }
+
+  // check if slugs are created per locale
+  private hasLocalizedSlug() {
+    return !!this.document.slugBase && this.translatableFields.includes(this.document.slugBase)
+  }
+
+  // get locales of slugs (null is slug without locale)
+  private getSlugLocales(): (string | null)[] {
+    return this.hasLocalizedSlug() ? this.document.i18n!.locales : [null]
+  }
+
+  // find document that row of import updates (translated slugs match slug of any locale, like findDocument)
+  private async findUpsertTarget(data: Record<string, any>, upsertBy: TUpsertKey) {
+    const value = data[upsertBy]
+    if (value === undefined || value === null) return null
+
+    if (upsertBy === "_id") {
+      return mongoose.isValidObjectId(value) ? this.Model.findOne({ _id: value, ...this.notDeletedFilter() }) : null
+    }
+
+    // exported rows have slug of every locale when slugs are translated
+    const slugs = (typeof value === "object" ? Object.values(value) : [value]).filter(Boolean).map(String)
+    if (!slugs.length) return null
+
+    const paths = this.getSlugLocales().map((locale) => (locale ? `slug.${locale}` : "slug"))
+    return this.Model.findOne({ $or: paths.map((path) => ({ [path]: { $in: slugs } })), ...this.notDeletedFilter() })
+  }
+
+  // replace translatable fields with their path in every locale (like title.en)
+  private toLocalePaths(fields: string[]) {
+    return fields.flatMap((field) =>
+      this.translatableFields.includes(field) ? this.document.i18n!.locales.map((locale) => `${field}.${locale}`) : [field]
+    )
+  }
+
+  // get fields of search (translatable fields are searched in all locales)
+  private getSearchFields() {
+    return this.toLocalePaths(this.document.searchOn ?? [])
+  }
+
+  // find document by id or slug (slugs of all locales and old slugs are checked)
+  private async findDocument(identity: string) {
+    let doc
+    if (!this.hasLocalizedSlug()) {
+      doc = await findDocByIdentity(identity, this.Model)
+    } else {
+      if (mongoose.isValidObjectId(identity)) doc = await this.Model.findById(identity)
+      doc ??= await this.Model.findOne({ $or: this.document.i18n!.locales.map((locale) => ({ [`slug.${locale}`]: identity })) })
+    }
+
+    if (!doc && this.document.slugBase) doc = await this.Model.findOne({ slugHistory: identity })
+    return doc
+  }
+
+  // find category by id or slug (old slugs are checked)
+  private async findCategory(identity: string) {
+    if (!this.CategoryModel) return null
+
+    const category = await findDocByIdentity(identity, this.CategoryModel)
+    return category ?? this.CategoryModel.findOne({ slugHistory: identity })
+  }
+
+  // get current slug when document is found by old slug (used for redirects)
+  private getMoved(doc: any, identity: string, locale?: string) {
+    if (!doc?.slugHistory?.includes(identity)) return
+
+    const slug = this.hasLocalizedSlug()
+      ? doc.get(`slug.${locale ?? this.document.i18n!.defaultLocale}`) ?? Object.values(doc.toObject().slug ?? {}).find(Boolean)
+      : doc.slug
+
+    return { from: identity, to: String(slug ?? doc.id) }
+  }
+
+  // get slug changes of edit (slug is created again when base field changes, locked and hand made slugs are kept)
+  private async getSlugUpdate(
+    model: Model<any>,
+    doc: any,
+    data: Record<string, any>,
+    slugBase: string,
+    locales: (string | null)[] = [null]
+  ): Promise<{ update: Record<string, any>; error?: undefined } | { update?: undefined; error: { field: string; message: EDocumentMSG } }> {
+    const update: Record<string, any> = {}
+    const oldHistory: string[] = [...(doc.slugHistory ?? [])]
+    const history = new Set(oldHistory)
+
+    // slugs of all locales are unique so documents are found by slug of any locale
+    const paths = locales.map((locale) => (locale ? `slug.${locale}` : "slug"))
+
+    for (const locale of locales) {
+      const path = locale ? `slug.${locale}` : "slug"
+      const lockPath = locale ? `slugLocked.${locale}` : "slugLocked"
+      const oldSlug = doc.get(path)
+      const handSlug = locale ? data.slug?.[locale] : data.slug
+      const base = locale ? data[slugBase]?.[locale] : data[slugBase]
+
+      let newSlug: string | undefined
+      if (handSlug !== undefined) {
+        // slugs that are set by hand are url friendly and locked in their locale
+        newSlug = slugify(String(handSlug ?? ""))
+        if (!newSlug) return { error: { field: path, message: EDocumentMSG.INVALID_FIELD_VALUE } }
+
+        if (newSlug !== oldSlug && (await model.exists({ $or: paths.map((slugPath) => ({ [slugPath]: newSlug })), _id: { $ne: doc._id } }))) {
+          return { error: { field: path, message: EDocumentMSG.SLUG_EXISTS } }
+        }
+
+        update[path] = newSlug
+        update[lockPath] = true
+      } else if (!doc.get(lockPath) && base && base !== doc.get(locale ? `${slugBase}.${locale}` : slugBase)) {
+        newSlug = locale
+          ? await uniqueSlug(base, model, paths, doc._id)
+          : await GenerateSlug(model.hydrate({ ...doc.toObject(), ...data }), model)
+        update[path] = newSlug
+      }
+
+      if (newSlug === undefined || newSlug === oldSlug) continue
+
+      // keep old slug for redirects (slug that is used again is removed from history)
+      if (oldSlug) history.add(oldSlug)
+      history.delete(newSlug)
+    }
+
+    if (history.size !== oldHistory.length || [...history].some((slug) => !oldHistory.includes(slug))) {
+      update.slugHistory = [...history]
+    }
+
+    return { update }
+  }
+
+  // get slugs of new document of batch (pre save only checks saved documents so documents of batch could get same slug)
+  private async getBatchSlugs(
+    data: Record<string, any>,
+    reserved: string[]
+  ): Promise<{ slugs: Record<string, any>; error?: undefined } | { slugs?: undefined; error: { field: string; message: EDocumentMSG } }> {
+    const slugBase = this.document.slugBase!
+    const locales = this.getSlugLocales()
+    const paths = locales.map((locale) => (locale ? `slug.${locale}` : "slug"))
+    const slugs: Record<string, any> = {}
+
+    for (const locale of locales) {
+      const path = locale ? `slug.${locale}` : "slug"
+      const handSlug = locale ? data.slug?.[locale] : data.slug
+      const base = locale ? data[slugBase]?.[locale] : data[slugBase]
+
+      let slug: string
+      if (handSlug) {
+        // slugs that are set by hand are locked and can't be used by other documents
+        slug = slugify(String(handSlug))
+        if (!slug) return { error: { field: path, message: EDocumentMSG.INVALID_FIELD_VALUE } }
+        if (reserved.includes(slug) || (await this.Model.exists({ $or: paths.map((slugPath) => ({ [slugPath]: slug })) }))) {
+          return { error: { field: path, message: EDocumentMSG.SLUG_EXISTS } }
+        }
+
+        slugs[locale ? `slugLocked.${locale}` : "slugLocked"] = true
+      } else if (base) {
+        slug = locale ? await uniqueSlug(base, this.Model, paths, undefined, reserved) : await GenerateSlug(new this.Model(data), this.Model)
+        if (reserved.includes(slug)) slug = await uniqueSlug(slug, this.Model, paths, undefined, reserved)
+      } else continue
+
+      slugs[path] = slug
+      reserved.push(slug)
+    }
+
+    return { slugs }
+  }
+
+  // resolve translatable fields of documents to values of locale (documents are returned as is without locale)
+  private localize<T>(docs: T, locale?: string, fallback?: string[]): T {
+    if (!this.document.i18n || !locale) return docs
+    const chain = localeChain(locale, fallback, this.document.i18n.locales, this.document.i18n.defaultLocale)
+    const fields = this.hasLocalizedSlug() ? [...this.translatableFields, "slug"] : this.translatableFields
+
+    const resolve = (doc: any) => (doc ? resolveTranslations(typeof doc.toObject === "function" ? doc.toObject() : doc, fields, chain) : doc)
+    return (Array.isArray(docs) ? docs.map(resolve) : resolve(docs)) as T
+  }
+
+  // check if all relations of include are defined
+  private checkInclude(include: string[]) {
+    const unknown = include.find((name) => !this.document.relations?.[name])
+    if (unknown) return this.result.singleError(unknown, EDocumentMSG.RELATION_NOT_FOUND)
+  }
+
+  // add documents of relations to documents (read permissions of target Doc are applied)
+  private async includeRelations(docs: IRelatedDocument[], include: string[], userId?: string, locale?: string, fallback?: string[]) {
+    let user = null
+    if (userId) user = await User.findById(userId)
+
+    for (const name of include) {
+      const relation = this.document.relations![name]
+      const many = relation.type === ERelationTypes.MANY
+      const target = Doc.docs.get(relation.target)
+
+      // users who can't get documents of target get empty relation
+      const role = target?.document.permissions?.advance?.getAll
+      if (!target || (role !== ERole.GEST && !permissionsCheck(role, user?.role))) {
+        for (const doc of docs) doc[name] = many ? [] : null
+        continue
+      }
+
+      const filter: Record<string, any> = await target.getReadFilter(userId, user)
+      const projection = target.getProjection(await target.getHiddenFields(userId, user))
+
+      if (relation.field) {
+        // ids of target documents are kept in field of documents
+        const field = relation.field
+        const ids = docs.flatMap((doc) => [doc[field] ?? []].flat())
+        const related: IRelatedDocument[] = target.localize(await target.Model.find({ ...filter, _id: { $in: ids } }, projection), locale, fallback)
+
+        for (const doc of docs) {
+          const refs = [doc[field] ?? []].flat().map(String)
+          const items = related.filter((item) => refs.includes(item._id.toString()))
+          doc[name] = many ? items : items[0] ?? null
+        }
+      } else {
+        // reverse lookup, target documents keep id of document in foreign field
+        const foreignField = relation.foreignField!
+        const related: IRelatedDocument[] = target.localize(await target.Model.find({ ...filter, [foreignField]: { $in: docs.map((doc) => doc._id) } }, projection), locale, fallback)
+
+        for (const doc of docs) {
+          const items = related.filter((item) => [item[foreignField] ?? []].flat().map(String).includes(doc._id.toString()))
+          doc[name] = many ? items : items[0] ?? null
+        }
+      }
+    }
+  }
+
+  // prepare documents of result (resolve translations and add included relations)
+  private async present<T>(docs: T, { locale, fallback, include = [], userId }: { locale?: string; fallback?: string[]; include?: string[]; userId?: string }) {
+    const localized = this.localize(docs, locale, fallback)
+    if (!include.length || !localized) return localized
+
+    const list = ([localized].flat() as IRelatedDocument[]).map((doc) => (typeof doc.toObject === "function" ? (doc.toObject() as IRelatedDocument) : doc))
+    await this.includeRelations(list, include, userId, locale, fallback)
+    return (Array.isArray(localized) ? list : list[0]) as T
+  }
+
+  // get fields of all Docs that keep ids of documents of this Doc
+  private getIncomingRelations() {
+    const relations = new Map<string, { doc: Doc<any, any>; field: string; onDelete: ERelationDeletePolicy }>()
+
+    // target documents of reverse relations keep id of document
+    for (const relation of Object.values(this.document.relations ?? {})) {
+      const doc = Doc.docs.get(relation.target)
+      if (!doc || !relation.foreignField) continue
+
+      relations.set(`${relation.target}:${relation.foreignField}`, { doc, field: relation.foreignField, onDelete: relation.onDelete ?? ERelationDeletePolicy.NULLIFY })
+    }
+
+    // documents of other Docs that keep ids in their relation fields
+    for (const doc of Doc.docs.values()) {
+      for (const relation of Object.values(doc.document.relations ?? {})) {
+        const key = `${doc.document.docName}:${relation.field}`
+        if (relation.target !== this.document.docName || !relation.field || relations.has(key)) continue
+
+        relations.set(key, { doc, field: relation.field, onDelete: relation.onDelete ?? ERelationDeletePolicy.NULLIFY })
+      }
+    }
+
+    return [...relations.values()]
+  }
+
+  // find Doc that restricts moving documents to trash (documents that will be deleted by cascade are checked too)
+  private async findRestriction(ids: mongoose.Types.ObjectId[], visited = new Set<string>()): Promise<string | undefined> {
+    ids = ids.filter((id) => !visited.has(`${this.document.docName}:${id}`))
+    if (!ids.length) return
+    for (const id of ids) visited.add(`${this.document.docName}:${id}`)
+
+    for (const { doc, field, onDelete } of this.getIncomingRelations()) {
+      const filter = { [field]: { $in: ids } }
+
+      if (onDelete === ERelationDeletePolicy.RESTRICT && (await doc.Model.exists(filter))) return doc.document.docName
+
+      // relations of documents that are moved to trash are applied on purge
+      if (onDelete === ERelationDeletePolicy.CASCADE && !doc.document.softDelete?.enabled) {
+        const restriction = await doc.findRestriction(await doc.Model.find(filter).distinct("_id"), visited)
+        if (restriction) return restriction
+      }
+    }
+  }
+
+  // find changes of related documents when documents are deleted
+  // (documents deleted by cascade are checked like deleting them from their Doc)
+  private async planDeletePolicies(
+    ids: mongoose.Types.ObjectId[],
+    user: any,
+    visited = new Set(ids.map((id) => `${this.document.docName}:${id}`)),
+    changes: IRelatedChange<Doc<any, any>>[] = []
+  ): Promise<{ changes: IRelatedChange<Doc<any, any>>[]; error?: undefined } | { changes?: undefined; error: IDocumentResult<unknown> }> {
+    for (const { doc, field, onDelete } of this.getIncomingRelations()) {
+      const filter: Record<string, any> = { [field]: { $in: ids } }
+
+      if (onDelete === ERelationDeletePolicy.RESTRICT) {
+        if (await doc.Model.exists(filter)) return { error: this.result.singleError(doc.document.docName, EDocumentMSG.DOCUMENT_IS_REFERENCED, EStatusCodes.CONFLICT) }
+        continue
+      }
+
+      // documents in trash are not deleted again
+      if (onDelete === ERelationDeletePolicy.CASCADE) Object.assign(filter, doc.notDeletedFilter())
+
+      const docs = (await doc.Model.find(filter)).filter((item) => !visited.has(`${doc.document.docName}:${item._id}`))
+      if (!docs.length) continue
+
+      if (onDelete === ERelationDeletePolicy.CASCADE) {
+        for (const item of docs) {
+          visited.add(`${doc.document.docName}:${item._id}`)
+
+          const error = await doc.checkRelatedDelete(item, user)
+          if (error) return { error }
+        }
+      }
+
+      changes.push({ doc, field, deletedIds: ids, onDelete, docs })
+
+      // relations of documents that are moved to trash are applied on purge
+      if (onDelete === ERelationDeletePolicy.CASCADE && !doc.document.softDelete?.enabled) {
+        const plan = await doc.planDeletePolicies(docs.map((item) => item._id), user, visited, changes)
+        if (plan.error) return plan
+      }
+    }
+
+    return { changes }
+  }
+
+  // check delete permissions and before hooks for document deleted by cascade relation
+  private async checkRelatedDelete(document: any, user: any) {
+    const permissions = this.document.permissions?.advance?.delete
+
+    if (permissions?.role !== ERole.GEST && !permissionsCheck(permissions?.role, user?.role)) {
+      return this.roleError(this.result.singleError(this.document.docName, EDocumentMSG.ROLE_REQUIRED), permissions?.role)
+    }
+
+    if (!permissions?.public && (!user || document.authorId?.toString() !== user.id)) {
+      return this.result.singleError(this.document.docName, EDocumentMSG.NO_PERMISSION)
+    }
+
+    return this.runHooks("beforeDelete", document, user)
+  }
+
+  // delete or nullify related documents (runs in transaction of deleted documents)
+  private async applyDeletePolicies(changes: IRelatedChange<Doc<any, any>>[], user: any, session?: mongoose.ClientSession) {
+    for (const { doc, field, deletedIds, onDelete, docs } of changes) {
+      const ids = docs.map((item) => item._id)
+
+      if (onDelete === ERelationDeletePolicy.NULLIFY) {
+        const isArray = doc.Model.schema.path(field)?.instance === "Array"
+        await doc.Model.updateMany({ _id: { $in: ids } }, isArray ? { $pull: { [field]: { $in: deletedIds } } } : { $unset: { [field]: 1 } }, { session })
+      } else if (doc.document.softDelete?.enabled) {
+        // move documents and their comments to trash
+        const deletedAt = new Date()
+        await doc.Model.updateMany({ _id: { $in: ids } }, { deletedAt, deletedBy: user?._id }, { session })
+        await doc.CommentModel?.updateMany({ document: { $in: ids }, deletedAt: null }, { deletedAt, deletedBy: user?._id }, { session })
+      } else {
+        await doc.removeDocuments(ids, session)
+      }
+    }
+  }
+
+  // run after hooks, events, revisions and audit of related documents that are changed by delete
+  private async finishDeletePolicies(changes: IRelatedChange<Doc<any, any>>[], user: any) {
+    for (const { doc, field, onDelete, docs } of changes) {
+      for (const item of docs) {
+        if (onDelete === ERelationDeletePolicy.NULLIFY) {
+          const newDoc = await doc.Model.findById(item._id)
+          if (!newDoc) continue
+
+          await doc.saveRevision(newDoc, user?.id, [field])
+          await doc.auditRelated(EAuditActions.DOCUMENT_EDIT, newDoc, user, EDocumentMSG.SUCCESS_EDIT, [field])
+          doc.emit(EDocEvents.DOCUMENT_EDITED, newDoc, user?.id)
+          continue
+        }
+
+        await doc.auditRelated(EAuditActions.DOCUMENT_DELETE, item, user, EDocumentMSG.SUCCESS_DELETE)
+        await doc.runAfterHooks("afterDelete", item, user)
+        doc.emit(EDocEvents.DOCUMENT_DELETED, item, user?.id)
+      }
+    }
+  }
+
+  // write audit of related document that is changed by delete of other document
+  private async auditRelated(action: EAuditActions, document: any, user: any, message: EDocumentMSG, changedFields: string[] = []) {
+    try {
+      await this.writeAudit(action, { actorId: user?.id, targets: [document._id.toString()], changedFields }, this.result.success(document, message, EStatusCodes.SUCCESS))
+    } catch (error) {
+      this.reportError("audit", error)
+    }
+  }
+
+  // delete documents with their comments and reactions of comments
+  private async removeDocuments(ids: mongoose.Types.ObjectId[], session?: mongoose.ClientSession) {
+    if (this.ReactionModel && this.CommentModel) {
+      const commentIds = await this.CommentModel.find({ document: { $in: ids } }, null, { session }).distinct("_id")
+      await this.ReactionModel.deleteMany({ comment: { $in: commentIds } }, { session })
+    }
+    await this.CommentModel?.deleteMany({ document: { $in: ids } }, { session })
+    await this.Model.deleteMany({ _id: { $in: ids } }, { session })
+  }
+
+  // set translations one by one so values of other locales are kept
+  private toUpdate(data: Record<string, any>) {
+    const update: Record<string, any> = { ...data }
+
+    // fields without value are removed from document
+    const unset = Object.keys(update).filter((field) => update[field] === undefined)
+    if (unset.length) {
+      for (const field of unset) delete update[field]
+      update.$unset = Object.fromEntries(unset.map((field) => [field, 1]))
+    }
+
+    for (const field of this.hasLocalizedSlug() ? [...this.translatableFields, "slug"] : this.translatableFields) {
+      const values = update[field]
+      if (!values || typeof values !== "object" || Array.isArray(values)) continue
+
+      delete update[field]
+      for (const [locale, value] of Object.entries(values)) update[`${field}.${locale}`] = value
+    }
+
+    return update
+  }
+
+  // get fields that users can sort documents by
+  private async getSortableFields() {
+    const fields = [...this.toLocalePaths(this.document.sortFields ?? []), "_id", "createdAt", "updatedAt"]
+
+    // add sortable custom fields
+    if (this.FieldDefModel) {
+      const defs = await this.FieldDefModel.find({ sortable: true })
+      fields.push(...defs.map((def) => VARIABLES_FIELD + "." + def.name))
+    }
+
+    return fields
+  }
+
+  // get fields that users can filter documents on
+  private async getFilterableFields() {
+    const fields = [...this.toLocalePaths(this.document.filterFields ?? []), "createdAt", "updatedAt"]
+
+    if (this.document.category?.enabled) fields.push("categories")
+    if (this.document.permissions?.advance?.create !== ERole.GEST) fields.push("authorId")
+
+    // add filterable custom fields
+    if (this.FieldDefModel) {
+      const defs = await this.FieldDefModel.find({ filterable: true })
+      fields.push(...defs.map((def) => VARIABLES_FIELD + "." + def.name))
+    }
+
+    return fields
+  }
+
+  // cast values of custom fields in filters and cursors (variables is mixed path so mongoose doesn't cast them)
+  private async getVariableCaster(): Promise<TFilterCast> {
+    const defs = this.FieldDefModel ? await this.FieldDefModel.find() : []
+
+    return (field, value) => {
+      const def = defs.find((def) => VARIABLES_FIELD + "." + def.name === field)
+      return def ? castVariable(def, value) : { value }
+    }
+  }
+
+  // get definitions of custom fields for documents with these categories
+  private async getFieldDefs(categories: unknown) {
+    if (!this.FieldDefModel) return []
+
+    const categoryIds = Array.isArray(categories) ? categories.map(String).filter((id) => mongoose.isValidObjectId(id)) : []
+    return this.FieldDefModel.find({ $or: [{ categories: { $size: 0 } }, { categories: { $exists: false } }, { categories: { $in: categoryIds } }] })
+  }
+
+  // check values of custom field in documents with changed definition (values are cast to new type)
+  private async migrateFieldValues(name: string, def: IPreFieldDef) {
+    const path = VARIABLES_FIELD + "." + name
+    const filter: Record<string, any> = {}
+    if (def.categories?.length) filter.categories = { $in: def.categories }
+
+    // documents without value can't have required field
+    if (def.required && (await this.Model.exists({ ...filter, [path]: { $in: [null, ""] } }))) {
+      return this.fieldDefResult.singleError(path, EDocumentMSG.FIELD_DEF_CONFLICT, EStatusCodes.CONFLICT)
+    }
+
+    const updates = []
+    for (const doc of await this.Model.find({ ...filter, [path]: { $nin: [null, ""] } }, { [path]: 1 })) {
+      const cast = castVariable(def, doc.get(path))
+      if (cast.error) return this.fieldDefResult.singleError(path, EDocumentMSG.FIELD_DEF_CONFLICT, EStatusCodes.CONFLICT)
+
+      updates.push({ updateOne: { filter: { _id: doc._id }, update: { $set: { [path]: cast.value } } } })
+    }
+
+    if (updates.length) await this.Model.bulkWrite(updates)
+  }
+
+  // validate values of custom fields with their definitions (values are cast to their types)
+  private async checkVariables(variables: unknown, categories: unknown) {
+    if (variables === undefined || variables === null) variables = {}
+    if (typeof variables !== "object" || Array.isArray(variables)) {
+      return { error: this.result.singleError(VARIABLES_FIELD, EDocumentMSG.INVALID_FIELD_TYPE) }
+    }
+
+    const defs = await this.getFieldDefs(categories)
+    const values: Record<string, unknown> = {}
+
+    for (const [name, value] of Object.entries(variables)) {
+      const field = VARIABLES_FIELD + "." + name
+
+      // check if field is defined for categories of document
+      const def = defs.find((def) => def.name === name)
+      if (!def) return { error: this.result.singleError(field, EDocumentMSG.FIELD_NOT_DEFINED) }
+
+      if (value === undefined || value === null || value === "") continue
+
+      const cast = castVariable(def, value)
+      if (cast.error) return { error: this.result.singleError(field, cast.error) }
+
+      // check if referenced document exist
+      if (def.type === EFieldTypes.REFERENCE && def.ref && mongoose.models[def.ref]) {
+        if (!(await mongoose.models[def.ref].exists({ _id: cast.value }))) {
+          return { error: this.result.singleError(field, EDocumentMSG.INVALID_FIELD_VALUE, EStatusCodes.NOT_FOUND) }
+        }
+      }
+
+      values[name] = cast.value
+    }
+
+    // check required fields
+    const missing = defs.find((def) => def.required && values[def.name] === undefined)
+    if (missing) return { error: this.result.singleError(VARIABLES_FIELD + "." + missing.name, EDocumentMSG.FIELD_REQUIRED) }
+
+    return { variables: values }
+  }
+
+  // check if categories exist and user can attach them to document
+  private async checkCategoriesUse(categories: unknown, userId?: string, user: any = null) {
+    if (!this.CategoryModel || !this.document.category?.enabled) return
+    const permissions = this.document.category.permissions?.advance?.use
+
+    if (!Array.isArray(categories)) return this.result.singleError("categories", ECategoryMSG.CATEGORY_NOT_FOUND)
+    if (!categories.length) return
+
+    // check if all categories exist
+    const categoryIds = [...new Set(categories.map((category) => String(category)))]
+    if (!categoryIds.every((id) => mongoose.isValidObjectId(id))) {
+      return this.result.singleError("categories", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+    }
+
+    const categoryDocs = await this.CategoryModel.find({ _id: { $in: categoryIds } })
+    if (categoryDocs.length !== categoryIds.length) {
+      return this.result.singleError("categories", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+    }
+
+    // check if user needed
+    if (permissions?.role !== ERole.GEST || !permissions?.public) {
+      if (!user && userId) user = await User.findById(userId)
+      if (!user) return this.result.singleError("user", ECategoryMSG.USER_NOT_FOUND)
+    }
+
+    // check use permission
+    if (permissions?.role !== ERole.GEST) {
+      if (!permissionsCheck(permissions?.role, user?.role)) {
+        return this.roleError(this.result.singleError("categories", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.role)
+      }
+    }
+
+    // check to see if users can use other's categories
+    if (!permissions?.public && categoryDocs.some((category) => category.authorId?.toString() !== user?.id)) {
+      return this.result.singleError("categories", ECategoryMSG.CAN_NOT_USE_CATEGORY, EStatusCodes.FORBIDDEN)
+    }
+  }
+
+  async getAll(
+    page: number,
+    limit: number,
+    {
+      sort = ["-createdAt"],
+      userId,
+      category,
+      includeDescendants = false,
+      filter: filterInput,
+      pagination = EPaginationModes.OFFSET,
+      cursor,
+      locale,
+      fallback,
+      include = [],
+    }: {
+      sort?: string[];
+      userId?: string;
+      category?: string;
+      includeDescendants?: boolean;
+      filter?: IDocumentFilter;
+      pagination?: EPaginationModes;
+      cursor?: string;
+      locale?: string;
+      fallback?: string[];
+      // names of relations that are added to documents
+      include?: string[];
+    }
+  ) {
+    let user = null;
+    // check to see who can get all documents
+    if (this.document.permissions?.advance?.getAll !== ERole.GEST) {
+      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+
+      user = await User.findById(userId);
+
+      // if user don't have perm return error
+      if (!permissionsCheck(this.document.permissions?.advance?.getAll, user?.role)) {
+        return this, this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.getAll);
+      }
+    }
+
+    // fields that user can't read are not sortable or filterable
+    const hiddenFields = await this.getHiddenFields(userId, user)
+
+    // validate sort fields
+    const sortSpec = parseSort(sort)
+    const sortableFields = (await this.getSortableFields()).filter((field) => !hiddenFields.includes(field))
+    const invalidSort = sortSpec.find(([field]) => !sortableFields.includes(field))
+    if (invalidSort) return this.result.singleError(invalidSort[0], EDocumentMSG.FIELD_NOT_SORTABLE)
+
+    // validate relations
+    const includeError = this.checkInclude(include)
+    if (includeError) return includeError
+
+    // validate page and limit
+    page = ConvertToNaturalNumber(page);
+    limit = ConvertToNaturalNumber(limit);
+
+    // generate skip
+    const skip = (page - 1) * limit;
+
+    // generate filter object for mongoose
+    const filter: Record<string, any> = await this.getReadFilter(userId, user);
+
+    // filter documents by category (and its sub categories)
+    if (category && this.CategoryModel) {
+      const categoryDoc = await this.findCategory(category)
+      if (!categoryDoc) return this.result.singleError("category", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      const categoryIds = [categoryDoc._id]
+      if (includeDescendants) categoryIds.push(...(await this.getCategoryDescendants(categoryDoc._id)))
+
+      filter.categories = { $in: categoryIds }
+    }
+
+    // add user filters (only filterable fields are accepted)
+    if (filterInput) {
+      const parsedFilter = parseFilter(filterInput, (await this.getFilterableFields()).filter((field) => !hiddenFields.includes(field)), await this.getVariableCaster())
+      if (parsedFilter.error) return this.result.singleError(parsedFilter.error.field, parsedFilter.error.message)
+
+      if (parsedFilter.query.$and) filter.$and = [...(filter.$and ?? []), ...parsedFilter.query.$and]
+    }
+
+    const projection = this.getProjection(hiddenFields)
+    if (pagination === EPaginationModes.CURSOR) {
+      return this.getAllByCursor(filter, projection, withTieBreaker(sortSpec), limit, cursor, { locale, fallback, include, userId, cast: await this.getVariableCaster() })
+    }
+
+    try {
+      // get document
+      const doc = await this.Model.find(filter, projection).sort(toMongoSort(sortSpec)).skip(skip).limit(limit);
+
+      // get total number of documents
+      const totalArticles = await this.Model.countDocuments(filter);
+
+      // get page data
       const pageData = getPageData(page, limit, totalArticles);
 
       // create result
-      const result: IDocumentResult<IModel> = {
-        status: 200,
+      const result: IDocumentResult<IModel> = {
+        status: 200,
+        type: EResultTypes.SUCCESS,
+        data: (await this.present(doc, { locale, fallback, include, userId })) as IModel,
+        pageData,
+      };
+
+      return result;
+    } catch (error) {
+      return handleModelErrors(error);
+    }
+  }
+
+  // get documents using keyset pagination (no skip and countDocuments)
+  private async getAllByCursor(
+    filter: Record<string, any>,
+    projection: Record<string, 0>,
+    sortSpec: TSortSpec,
+    limit: number,
+    cursor?: string,
+    { locale, fallback, include, userId, cast }: { locale?: string; fallback?: string[]; include?: string[]; userId?: string; cast?: TFilterCast } = {}
+  ) {
+    let direction: TCursorDirection = "next"
+
+    // continue from cursor position
+    if (cursor) {
+      const decodedCursor = decodeCursor(cursor, sortSpec)
+      if (!decodedCursor) return this.result.singleError("cursor", EDocumentMSG.INVALID_CURSOR)
+
+      // cast cursor values of custom fields (they are stored as json)
+      for (const [index, [field]] of sortSpec.entries()) {
+        const value = decodedCursor.values[index]
+        if (!cast || value === null || value === undefined) continue
+
+        const casted = cast(field, value)
+        if (casted.error) return this.result.singleError("cursor", EDocumentMSG.INVALID_CURSOR)
+        decodedCursor.values[index] = casted.value
+      }
+
+      direction = decodedCursor.direction
+      filter = { ...filter, $and: [...(filter.$and ?? []), cursorFilter(sortSpec, decodedCursor)] }
+    }
+
+    try {
+      // get one more document to know if there is more pages
+      const docs = await this.Model.find(filter, projection).sort(toMongoSort(sortSpec, direction === "prev")).limit(limit + 1);
+      const hasMore = docs.length > limit
+      if (hasMore) docs.pop()
+
+      // documents of prev pages are fetched in reverse order
+      if (direction === "prev") docs.reverse()
+
+      const first = docs[0]
+      const last = docs[docs.length - 1]
+
+      // create result
+      const result: IDocumentResult<IModel[]> = {
+        status: EStatusCodes.SUCCESS,
+        type: EResultTypes.SUCCESS,
+        data: (await this.present(docs, { locale, fallback, include, userId })) as IModel[],
+        nextCursor: last && (direction === "prev" || hasMore) ? encodeCursor(last, sortSpec, "next") : null,
+        prevCursor: first && cursor && (direction === "next" || hasMore) ? encodeCursor(first, sortSpec, "prev") : null,
+      };
+
+      return result;
+    } catch (error) {
+      return handleModelErrors(error);
+    }
+  }
+
+  async search(
+    query: string,
+    page: number,
+    limit: number,
+    { userId, locale, fallback }: { userId?: string; locale?: string; fallback?: string[] } = {}
+  ) {
+    const fields = this.getSearchFields()
+    if (!fields.length) return this.result.singleError("search", EDocumentMSG.SEARCH_NOT_ENABLED)
+
+    query = query?.trim()
+    if (!query) return this.result.singleError("query", EDocumentMSG.EMPTY_SEARCH_QUERY)
+
+    let user = null;
+    // check to see who can get all documents
+    if (this.document.permissions?.advance?.getAll !== ERole.GEST) {
+      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+
+      user = await User.findById(userId);
+
+      // if user don't have perm return error
+      if (!permissionsCheck(this.document.permissions?.advance?.getAll, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.getAll);
+      }
+    }
+
+    // validate page and limit
+    page = ConvertToNaturalNumber(page);
+    limit = ConvertToNaturalNumber(limit);
+
+    // generate skip
+    const skip = (page - 1) * limit;
+
+    // generate filter object for mongoose
+    const filter: Record<string, any> = await this.getReadFilter(userId, user);
+
+    // remove fields that user can't read (hidden fields are not searched)
+    const hiddenFields = await this.getHiddenFields(userId, user)
+    const projection = this.getProjection(hiddenFields)
+    const searchFields = fields.filter((field) => !hiddenFields.includes(field.split(".")[0]))
+    if (!searchFields.length) return this.result.singleError("search", EDocumentMSG.SEARCH_NOT_ENABLED)
+
+    try {
+      let docs: IModel[] | undefined
+      let totalDocuments = 0
+
+      // text index covers all search fields so it is only used when user can read all of them
+      if (searchFields.length === fields.length) {
+        try {
+          // search using text index and sort by relevance
+          const textFilter = { ...filter, $text: { $search: query } }
+          docs = await this.Model.find(textFilter, { ...projection, score: { $meta: "textScore" } })
+            .sort({ score: { $meta: "textScore" } })
+            .skip(skip)
+            .limit(limit);
+          totalDocuments = await this.Model.countDocuments(textFilter);
+        } catch (error: any) {
+          if (error?.code !== TEXT_INDEX_NOT_FOUND_CODE) throw error
+        }
+      }
+
+      if (!docs) {
+        // fallback to case-insensitive regex when there is no text index
+        const regex = new RegExp(escapeRegex(query), "i")
+        const regexFilter = { ...filter, $or: searchFields.map((field) => ({ [field]: regex })) }
+        const found = await this.Model.aggregate([
+          { $match: regexFilter },
+          { $addFields: { score: regexScoreExpression(searchFields, query) } },
+          { $sort: { score: -1, createdAt: -1 } },
+          { $skip: skip },
+          { $limit: limit },
+          ...(hiddenFields.length ? [{ $project: projection }] : []),
+        ]);
+        docs = found.map((doc) => this.Model.hydrate(doc)) as IModel[];
+        totalDocuments = await this.Model.countDocuments(regexFilter);
+      }
+
+      // get page data
+      const pageData = getPageData(page, limit, totalDocuments);
+
+      // create result
+      const result: IDocumentResult<IModel[]> = {
+        status: EStatusCodes.SUCCESS,
+        type: EResultTypes.SUCCESS,
+        data: this.localize(docs, locale, fallback),
+        pageData,
+      };
+
+      return result;
+    } catch (error) {
+      return handleModelErrors(error);
+    }
+  }
+
+  async getOne(identity: string, userId?: string, { locale, fallback, include = [] }: { locale?: string; fallback?: string[]; include?: string[] } = {}) {
+    // check to see who can get document
+    let user = null;
+    if (this.document.permissions?.advance?.getOne !== ERole.GEST) {
+      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+
+      user = await User.findById(userId);
+
+      // if user don't have perm return error
+      if (!permissionsCheck(this.document.permissions?.advance?.getOne, user?.role)) {
+        return this, this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.getOne);
+      }
+    }
+
+    // validate relations
+    const includeError = this.checkInclude(include)
+    if (includeError) return includeError
+
+    // get read filter (drafts, deleted and private documents)
+    const readFilter = await this.getReadFilter(userId, user)
+
+    const doc = await this.findDocument(identity)
+    if (!doc) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+    // hide drafts, deleted and private documents from users who can't see them
+    if (!(await this.Model.exists({ _id: doc._id, ...readFilter }))) {
+      return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+    }
+
+    // remove fields that user can't read
+    const hiddenFields = await this.getHiddenFields(userId, user)
+    if (hiddenFields.length) {
+      const result = this.result.success(await this.present(await this.Model.findById(doc._id, this.getProjection(hiddenFields)), { locale, fallback, include, userId }), EDocumentMSG.SUCCESS)
+      result.moved = this.getMoved(doc, identity, locale)
+      return result
+    }
+
+    // document is found by old slug
+    const result = this.result.success(await this.present(doc, { locale, fallback, include, userId }), EDocumentMSG.SUCCESS)
+    result.moved = this.getMoved(doc, identity, locale)
+    return result
+  }
+
+  // get translatable fields of document that have no value in each locale
+  async getMissingTranslations(identity: string, userId?: string) {
+    if (!this.document.i18n) return new Error("translations are disabled")
+
+    // check to see who can get document
+    let user = null;
+    if (this.document.permissions?.advance?.getOne !== ERole.GEST) {
+      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+
+      user = await User.findById(userId);
+      if (!permissionsCheck(this.document.permissions?.advance?.getOne, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.getOne);
+      }
+    }
+
+    const readFilter = await this.getReadFilter(userId, user)
+
+    // hide drafts, deleted and private documents from users who can't see them
+    const doc = await this.findDocument(identity)
+    if (!doc || !(await this.Model.exists({ _id: doc._id, ...readFilter }))) {
+      return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+    }
+
+    // only check fields that user can read
+    const hiddenFields = await this.getHiddenFields(userId, user)
+    const fields = this.translatableFields.filter((field) => !hiddenFields.includes(field))
+
+    const result: IDocumentResult<Record<string, string[]>> = {
+      status: EStatusCodes.SUCCESS,
+      type: EResultTypes.SUCCESS,
+      data: missingTranslations(doc.toObject(), fields, this.document.i18n.locales),
+      message: EDocumentMSG.MISSING_TRANSLATIONS_FOUND,
+    };
+
+    return result;
+  }
+
+  // check if user can create document with this data
+  private async checkCreate(data: IPreModel, authorId?: string) {
+    // validate data before any DB work
+    const inputError = this.validateInput(data, "create")
+    if (inputError) return { error: inputError }
+
+    // check permissions needed to create
+    let user = null
+    if (this.document.permissions?.advance?.create !== ERole.GEST) {
+      if (!authorId) return { error: this.result.singleError("user", EDocumentMSG.AUTHOR_NOT_FOUND) }
+
+      user = await User.findById(authorId)
+      if (!user) return { error: this.result.singleError("user", EDocumentMSG.AUTHOR_NOT_FOUND) }
+
+      if (!permissionsCheck(this.document.permissions?.advance?.create, user.role)) {
+        return { error: this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.create) }
+      }
+    }
+
+    // check if author can write all fields
+    const fieldError = await this.checkWritableFields(data, authorId, user)
+    if (fieldError) return { error: fieldError }
+
+    // check if author can create document with this state
+    if (data && typeof data === "object") {
+      const stateError = this.checkStateChange(this.document.lifecycle?.defaultState ?? EStates.PUBLISHED, data, user)
+      if (stateError) return { error: stateError }
+    }
+
+    // check if author can use categories
+    if (data && typeof data === "object" && "categories" in data) {
+      const categoriesError = await this.checkCategoriesUse(data.categories, authorId, user)
+      if (categoriesError) return { error: categoriesError }
+    }
+
+    // check values of custom fields
+    if (this.FieldDefModel && data && typeof data === "object") {
+      const record = data as Record<string, any>
+      const variables = await this.checkVariables(record[VARIABLES_FIELD], record.categories)
+      if (variables.error) return { error: variables.error }
+
+      record[VARIABLES_FIELD] = variables.variables
+    }
+
+    return { user }
+  }
+
+  async create(data: IPreModel, authorId?: string) {
+    // check if author can create this document
+    const { user, error } = await this.checkCreate(data, authorId)
+    if (error) return error
+
+    // run before hooks
+    const hookError = await this.runHooks("beforeCreate", data, user)
+    if (hookError) return hookError
+
+    let doc
+    try {
+      // save document to DB
+      doc = await this.Model.create(data);
+
+      // save first revision
+      await this.saveRevision(doc, authorId, Object.keys(cleanSnapshot(doc.toObject({ depopulate: true }))))
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+
+    await this.runAfterHooks("afterCreate", doc, user)
+    this.emit(EDocEvents.DOCUMENT_CREATED, doc, user?.id ?? authorId)
+
+    return this.result.success(await this.hideFields(doc, user?.id ?? authorId, user), EDocumentMSG.SUCCESS_CREATE, EStatusCodes.SUCCESS_CREATE)
+  }
+
+  // check if user can edit document with this data
+  private async checkEdit(document: any, data: Partial<IModel>, editorId?: string) {
+    const permissions = this.document.permissions?.advance?.edit
+
+    // check if user needed
+    let user = null
+    if (permissions?.role !== ERole.GEST || !permissions?.public) {
+      user = await User.findById(editorId)
+      // // check if editor exist
+      if (!user) return { error: this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND) }
+    }
+
+    // check edit permission
+    if (permissions?.role !== ERole.GEST) {
+      if (!permissionsCheck(permissions?.role, user?.role)) {
+        return { error: this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), permissions?.role) }
+      }
+    }
+
+    // check to see if other users with perm can edit other's document    
+    if (!permissions?.public && document.authorId?.toString() !== user?.id) {
+      return { error: this.result.singleError("user", EDocumentMSG.NO_PERMISSION) }
+    }
+
+    // check if editor can write all fields
+    const fieldError = await this.checkWritableFields(data, editorId, user)
+    if (fieldError) return { error: fieldError }
+
+    // check if editor can change state of document
+    const stateError = this.checkStateChange(document.state, data, user)
+    if (stateError) return { error: stateError }
+
+    // check if document author changed author
+    if ('authorId' in data) {
+      // check if new document author exist
+      const newAuthor = await User.findById(data.authorId)
+      if (!newAuthor) return { error: this.result.singleError("new_author", EDocumentMSG.USER_NOT_FOUND, EStatusCodes.NOT_FOUND) }
+
+      // check if new author has perm
+      if (!permissionsCheck(this.document.permissions?.advance?.create, newAuthor?.role)) {
+        return { error: this.result.singleError("new_author", EDocumentMSG.NEW_AUTHOR_IS_NOT_VALID) }
+      }
+    }
+
+    // check if editor can use new categories
+    if ('categories' in data) {
+      const categoriesError = await this.checkCategoriesUse(data.categories, editorId, user)
+      if (categoriesError) return { error: categoriesError }
+    }
+
+    // check values of custom fields (categories may change fields of document)
+    const variablesError = await this.checkEditVariables(document, data)
+    if (variablesError) return { error: variablesError }
+
+    return { user }
+  }
+
+  // check custom fields of edited document and cast values of data
+  private async checkEditVariables(document: any, data: Partial<IModel>) {
+    if (!this.FieldDefModel || !(VARIABLES_FIELD in data || 'categories' in data)) return
+
+    const record = data as Record<string, any>
+    const variables = await this.checkVariables(
+      VARIABLES_FIELD in record ? record[VARIABLES_FIELD] : document[VARIABLES_FIELD],
+      'categories' in record ? record.categories : document.categories
+    )
+    if (variables.error) return variables.error
+
+    if (VARIABLES_FIELD in record) record[VARIABLES_FIELD] = variables.variables
+  }
+
+  async edit(identity: string, data: Partial<IModel>, editorId?: string) {
+    // validate data before any DB work
+    const inputError = this.validateInput(data, "edit")
+    if (inputError) return inputError
+
+    // get document and check if exist
+    const document = await this.findDocument(identity)
+    if (!document || document.deletedAt) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND)
+
+    // check if editor can edit this document
+    const { user, error } = await this.checkEdit(document, data, editorId)
+    if (error) return error
+
+    // run before hooks
+    const hookError = await this.runHooks("beforeEdit", document, data, user)
+    if (hookError) return hookError
+
+    let newDoc
+    try {
+      // save new data to DB
+      // create slug again when base field changes
+      const slugUpdate = this.document.slugBase
+        ? await this.getSlugUpdate(this.Model, document, data as Record<string, any>, this.document.slugBase, this.getSlugLocales())
+        : { update: {} }
+      if (slugUpdate.error) return this.result.singleError(slugUpdate.error.field, slugUpdate.error.message, EStatusCodes.CONFLICT)
+
+      // result has document after edit
+      newDoc = await this.Model.findByIdAndUpdate(document.id, { ...this.toUpdate(data), ...slugUpdate.update }, { new: true })
+
+      // save runs slug middleware for new translations
+      if (this.hasLocalizedSlug()) await newDoc.save()
+
+      // save revision with changed fields
+      if (this.document.versioning?.enabled) {
+        const changedFields = Object.keys(diffSnapshots(document.toObject({ depopulate: true }), newDoc.toObject({ depopulate: true })))
+        if (changedFields.length) await this.saveRevision(newDoc, user?.id ?? editorId, changedFields)
+      }
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+
+    await this.runAfterHooks("afterEdit", newDoc, user)
+    this.emit(EDocEvents.DOCUMENT_EDITED, newDoc, user?.id ?? editorId)
+
+    return this.result.success(await this.hideFields(newDoc, user?.id ?? editorId, user), EDocumentMSG.SUCCESS_EDIT, EStatusCodes.SUCCESS_CREATE)
+  }
+
+  async delete(identity: string, userId?: String) {
+    const permissions = this.document.permissions?.advance?.delete
+
+    // check if document exit
+    const document = await this.findDocument(identity)
+    if (!document || document.deletedAt) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND)
+
+    // check if user needed
+    let user = null
+    if (permissions?.role !== ERole.GEST || !permissions?.public) {
+      user = await User.findById(userId)
+      // // check if editor exist
+      if (!user) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+    }
+
+    if (permissions?.role !== ERole.GEST) {
+      // check the permissions
+      if (!permissionsCheck(permissions?.role, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), permissions?.role)
+      }
+    }
+
+    // check to see if other users with perm can delete other's document    
+    if (!permissions?.public && document.authorId?.toString() !== user?.id) {
+      return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
+    }
+
+    // documents with restrict relation must be deleted first (relations are applied on purge when soft delete is enabled)
+    let related: IRelatedChange<Doc<any, any>>[] = []
+    if (this.document.softDelete?.enabled) {
+      const restriction = await this.findRestriction([document._id])
+      if (restriction) return this.result.singleError(restriction, EDocumentMSG.DOCUMENT_IS_REFERENCED, EStatusCodes.CONFLICT)
+    } else {
+      const plan = await this.planDeletePolicies([document._id], user)
+      if (plan.error) return plan.error
+      related = plan.changes
+    }
+
+    // run before hooks
+    const hookError = await this.runHooks("beforeDelete", document, user)
+    if (hookError) return hookError
+
+    try {
+      if (this.document.softDelete?.enabled) {
+        // move document and its comments to trash
+        const deletedAt = new Date()
+        document.deletedAt = deletedAt
+        document.deletedBy = user?._id
+        await document.save()
+
+        await this.CommentModel?.updateMany({ document: document._id, deletedAt: null }, { deletedAt, deletedBy: user?._id })
+      } else {
+        // delete document (with its comments) and delete or nullify related documents
+        await withTransaction(async (session) => {
+          await this.removeDocuments([document._id], session)
+          await this.applyDeletePolicies(related, user, session)
+        })
+      }
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+
+    await this.runAfterHooks("afterDelete", document, user)
+    this.emit(EDocEvents.DOCUMENT_DELETED, document, user?.id)
+    await this.finishDeletePolicies(related, user)
+
+    return this.result.success(document, EDocumentMSG.SUCCESS_DELETE, EStatusCodes.SUCCESS)
+  }
+
+  async getTrash(page: number, limit: number, userId?: string) {
+    if (!this.document.softDelete?.enabled) return new Error("soft delete is disabled")
+
+    const user = userId ? await User.findById(userId) : null
+
+    // check to see who can get deleted documents
+    if (this.document.permissions?.advance?.getTrash !== ERole.GEST) {
+      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+
+      if (!permissionsCheck(this.document.permissions?.advance?.getTrash, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.getTrash);
+      }
+    }
+
+    // validate page and limit
+    page = ConvertToNaturalNumber(page);
+    limit = ConvertToNaturalNumber(limit);
+
+    // generate skip
+    const skip = (page - 1) * limit;
+
+    // deleted documents that user can read (private documents of other users are hidden)
+    const { deletedAt, ...readFilter } = await this.getReadFilter(userId, user)
+    const filter = { ...readFilter, deletedAt: { $ne: null } }
+
+    try {
+      // get deleted documents
+      const docs = await this.Model.find(filter, this.getProjection(await this.getHiddenFields(userId))).sort({ deletedAt: -1 }).skip(skip).limit(limit);
+
+      // get total number of deleted documents
+      const totalDocuments = await this.Model.countDocuments(filter);
+
+      // get page data
+      const pageData = getPageData(page, limit, totalDocuments);
+
+      // create result
+      const result: IDocumentResult<IModel[]> = {
+        status: EStatusCodes.SUCCESS,
+        type: EResultTypes.SUCCESS,
+        data: docs as IModel[],
+        pageData,
+      };
+
+      return result;
+    } catch (error) {
+      return handleModelErrors(error);
+    }
+  }
+
+  async restore(identity: string, userId?: string) {
+    if (!this.document.softDelete?.enabled) return new Error("soft delete is disabled")
+    const permissions = this.document.permissions?.advance?.restore
+
+    // check if document is in trash
+    const document = await this.findDocument(identity)
+    if (!document) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+    if (!document.deletedAt) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_IN_TRASH)
+
+    // check if user needed
+    let user = null
+    if (permissions?.role !== ERole.GEST || !permissions?.public) {
+      user = await User.findById(userId)
+      if (!user) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+    }
+
+    // check the permissions
+    if (permissions?.role !== ERole.GEST) {
+      if (!permissionsCheck(permissions?.role, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), permissions?.role)
+      }
+    }
+
+    // check to see if other users with perm can restore other's document
+    if (!permissions?.public && document.authorId?.toString() !== user?.id) {
+      return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
+    }
+
+    try {
+      // restore comments deleted together with document
+      await this.CommentModel?.updateMany({ document: document._id, deletedAt: document.deletedAt }, { deletedAt: null, $unset: { deletedBy: 1 } })
+
+      // restore document
+      document.deletedAt = null
+      document.deletedBy = undefined
+      await document.save()
+
+      this.emit(EDocEvents.DOCUMENT_RESTORED, document, user?.id)
+
+      return this.result.success(document, EDocumentMSG.SUCCESS_RESTORE, EStatusCodes.SUCCESS)
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+  }
+
+  async purge(identity: string, userId?: string) {
+    if (!this.document.softDelete?.enabled) return new Error("soft delete is disabled")
+    const permissions = this.document.permissions?.advance?.purge
+
+    // check if document is in trash
+    const document = await this.findDocument(identity)
+    if (!document) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+    if (!document.deletedAt) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_IN_TRASH)
+
+    // check if user needed
+    let user = null
+    if (permissions?.role !== ERole.GEST || !permissions?.public) {
+      user = await User.findById(userId)
+      if (!user) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+    }
+
+    // check the permissions
+    if (permissions?.role !== ERole.GEST) {
+      if (!permissionsCheck(permissions?.role, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), permissions?.role)
+      }
+    }
+
+    // check to see if other users with perm can purge other's document
+    if (!permissions?.public && document.authorId?.toString() !== user?.id) {
+      return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
+    }
+
+    // documents with restrict relation must be deleted first
+    const plan = await this.planDeletePolicies([document._id], user)
+    if (plan.error) return plan.error
+
+    try {
+      // delete document and all of its comments (and their reactions), and delete or nullify related documents
+      await withTransaction(async (session) => {
+        await this.removeDocuments([document._id], session)
+        await this.applyDeletePolicies(plan.changes, user, session)
+      })
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+
+    this.emit(EDocEvents.DOCUMENT_PURGED, document, user?.id)
+    await this.finishDeletePolicies(plan.changes, user)
+
+    return this.result.success(document, EDocumentMSG.SUCCESS_PURGE, EStatusCodes.SUCCESS)
+  }
+
+
+  // find documents targeted by bulk operation (ids that are not found are reported as failed)
+  private async findBulkTargets(target: TBulkTarget, user: any) {
+    const notFound: IBulkResult["failed"] = []
+    let filter: Record<string, any>
+
+    if (Array.isArray(target)) {
+      const ids = target.map(String)
+      filter = { _id: { $in: ids.filter((id) => mongoose.isValidObjectId(id)) } }
+
+      const docs = await this.Model.find({ ...filter, ...this.notDeletedFilter() })
+      for (const id of ids) {
+        if (!docs.some((doc) => doc._id.toString() === id)) notFound.push({ id, message: EDocumentMSG.DOCUMENT_NOT_FOUND })
+      }
+
+      return { docs, notFound }
+    }
+
+    // all documents are selected only when asked explicitly
+    if (target && "all" in target && target.all === true && Object.keys(target).length === 1) {
+      const docs = await this.Model.find(this.notDeletedFilter())
+      return { docs, notFound }
+    }
+
+    // only filterable fields that user can read are accepted
+    const hiddenFields = await this.getHiddenFields(undefined, user)
+    const parsedFilter = parseFilter(target as IDocumentFilter, (await this.getFilterableFields()).filter((field) => !hiddenFields.includes(field)), await this.getVariableCaster())
+    if (parsedFilter.error) return { error: this.result.singleError(parsedFilter.error.field, parsedFilter.error.message) }
+
+    // empty filter would select all documents
+    if (!Object.keys(parsedFilter.query).length) return { error: this.result.singleError("target", EDocumentMSG.EMPTY_BULK_TARGET) }
+
+    const docs = await this.Model.find({ ...parsedFilter.query, ...this.notDeletedFilter() })
+    return { docs, notFound }
+  }
+
+  async bulkCreate(items: IPreModel[], authorId?: string) {
+    // check permissions needed to create (once for all items)
+    let user = null
+    if (this.document.permissions?.advance?.create !== ERole.GEST) {
+      if (!authorId) return this.result.singleError("user", EDocumentMSG.AUTHOR_NOT_FOUND)
+
+      user = await User.findById(authorId)
+      if (!user) return this.result.singleError("user", EDocumentMSG.AUTHOR_NOT_FOUND)
+
+      if (!permissionsCheck(this.document.permissions?.advance?.create, user.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.create)
+      }
+    }
+
+    const report: IBulkResult = { succeeded: [], failed: [] }
+    const validItems: { index: number; data: IPreModel; slugs: Record<string, any> }[] = []
+    const reservedSlugs: string[] = []
+
+    // validate every item
+    for (const [index, data] of items.entries()) {
+      const inputError = this.validateInput(data, "create")
+      if (inputError) {
+        report.failed.push({ index, message: inputError.message ?? EDocumentMSG.INVALID_DATA, error: inputError })
+        continue
+      }
+
+      const fieldError = await this.checkWritableFields(data, authorId, user)
+      if (fieldError) {
+        report.failed.push({ index, message: EDocumentMSG.FIELD_NOT_WRITABLE, error: fieldError })
+        continue
+      }
+
+      if (data && typeof data === "object") {
+        const stateError = this.checkStateChange(this.document.lifecycle?.defaultState ?? EStates.PUBLISHED, data, user)
+        if (stateError) {
+          report.failed.push({ index, message: EDocumentMSG.STATE_TRANSITION_NOT_ALLOWED, error: stateError })
+          continue
+        }
+      }
+
+      if (data && typeof data === "object" && "categories" in data) {
+        const categoriesError = await this.checkCategoriesUse(data.categories, authorId, user)
+        if (categoriesError) {
+          report.failed.push({ index, message: categoriesError.message ?? ECategoryMSG.CAN_NOT_USE_CATEGORY, error: categoriesError })
+          continue
+        }
+      }
+
+      if (this.FieldDefModel && data && typeof data === "object") {
+        const record = data as Record<string, any>
+        const variables = await this.checkVariables(record[VARIABLES_FIELD], record.categories)
+        if (variables.error) {
+          report.failed.push({ index, message: variables.error.message ?? EDocumentMSG.INVALID_DATA, error: variables.error })
+          continue
+        }
+
+        record[VARIABLES_FIELD] = variables.variables
+      }
+
+      try {
+        await new this.Model(data).validate()
+      } catch (error) {
+        report.failed.push({ index, message: EDocumentMSG.INVALID_DATA, error: handleModelErrors(error) })
+        continue
+      }
+
+      const hookError = await this.runHooks("beforeCreate", data, user)
+      if (hookError) {
+        report.failed.push({ index, message: hookError.message ?? EDocumentMSG.CAN_CREATE_DOCUMENT, error: hookError })
+        continue
+      }
+
+      // items of batch get different slugs
+      let slugs: Record<string, any> = {}
+      if (this.document.slugBase) {
+        const batchSlugs = await this.getBatchSlugs(data as Record<string, any>, reservedSlugs)
+        if (batchSlugs.error) {
+          const error = this.result.singleError(batchSlugs.error.field, batchSlugs.error.message, EStatusCodes.CONFLICT)
+          report.failed.push({ index, message: batchSlugs.error.message, error })
+          continue
+        }
+
+        slugs = batchSlugs.slugs
+      }
+
+      validItems.push({ index, data, slugs })
+    }
+
+    let docs
+    try {
+      // save all valid items together (mongoose needs ordered to create many documents in session)
+      docs = await withTransaction((session) => {
+        const newDocs = validItems.map(({ data, slugs }) => {
+          const doc = new this.Model(data)
+          for (const [path, value] of Object.entries(slugs)) doc.set(path, value)
+          doc.$locals.slugsReady = !!this.document.slugBase
+          return doc
+        })
+
+        return this.Model.create(newDocs, { session, ordered: true })
+      })
+
+      for (const [i, doc] of docs.entries()) {
+        await this.saveRevision(doc, authorId, Object.keys(cleanSnapshot(doc.toObject({ depopulate: true }))))
+        report.succeeded.push({ index: validItems[i].index, id: doc._id.toString(), message: EDocumentMSG.SUCCESS_CREATE })
+      }
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+
+    for (const doc of docs) {
+      await this.runAfterHooks("afterCreate", doc, user)
+      this.emit(EDocEvents.DOCUMENT_CREATED, doc, user?.id ?? authorId)
+    }
+
+    return this.bulkResult(report)
+  }
+
+  async bulkEdit(target: TBulkTarget, patch: Partial<IModel>, editorId?: string) {
+    const permissions = this.document.permissions?.advance?.edit
+
+    // validate patch before any DB work
+    const inputError = this.validateInput(patch, "edit")
+    if (inputError) return inputError
+
+    // check if user needed
+    let user = null
+    if (permissions?.role !== ERole.GEST || !permissions?.public) {
+      user = await User.findById(editorId)
+      if (!user) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+    }
+
+    // check edit permission (once for all documents)
+    if (permissions?.role !== ERole.GEST) {
+      if (!permissionsCheck(permissions?.role, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), permissions?.role)
+      }
+    }
+
+    // check patch (same for all documents)
+    const fieldError = await this.checkWritableFields(patch, editorId, user)
+    if (fieldError) return fieldError
+
+    // slugs are unique so one slug can't be set for many documents
+    if ('slug' in patch) return this.result.singleError("slug", EDocumentMSG.FIELD_NOT_WRITABLE)
+
+    if ('authorId' in patch) {
+      const newAuthor = await User.findById(patch.authorId)
+      if (!newAuthor) return this.result.singleError("new_author", EDocumentMSG.USER_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      if (!permissionsCheck(this.document.permissions?.advance?.create, newAuthor?.role)) {
+        return this.result.singleError("new_author", EDocumentMSG.NEW_AUTHOR_IS_NOT_VALID)
+      }
+    }
+
+    if ('categories' in patch) {
+      const categoriesError = await this.checkCategoriesUse(patch.categories, editorId, user)
+      if (categoriesError) return categoriesError
+    }
+
+    const targets = await this.findBulkTargets(target, user)
+    if (targets.error) return targets.error
+
+    const report: IBulkResult = { succeeded: [], failed: [...targets.notFound] }
+    const allowedDocs = []
+    const slugUpdates = new Map<string, Record<string, any>>()
+
+    // check ownership and state transition of every document
+    for (const doc of targets.docs) {
+      const id = doc._id.toString()
+
+      if (!permissions?.public && doc.authorId?.toString() !== user?.id) {
+        report.failed.push({ id, message: EDocumentMSG.NO_PERMISSION })
+        continue
+      }
+
+      const stateError = this.checkStateChange(doc.state, patch, user)
+      if (stateError) {
+        report.failed.push({ id, message: EDocumentMSG.STATE_TRANSITION_NOT_ALLOWED, error: stateError })
+        continue
+      }
+
+      // custom fields depend on categories of every document
+      const variablesError = await this.checkEditVariables(doc, patch)
+      if (variablesError) {
+        report.failed.push({ id, message: variablesError.message ?? EDocumentMSG.INVALID_DATA, error: variablesError })
+        continue
+      }
+
+      const hookError = await this.runHooks("beforeEdit", doc, patch, user)
+      if (hookError) {
+        report.failed.push({ id, message: hookError.message ?? EDocumentMSG.NO_PERMISSION, error: hookError })
+        continue
+      }
+
+      // create slug of every document again when base field changes
+      if (this.document.slugBase) {
+        const slugUpdate = await this.getSlugUpdate(this.Model, doc, patch as Record<string, any>, this.document.slugBase, this.getSlugLocales())
+        if (slugUpdate.error) {
+          const error = this.result.singleError(slugUpdate.error.field, slugUpdate.error.message, EStatusCodes.CONFLICT)
+          report.failed.push({ id, message: slugUpdate.error.message, error })
+          continue
+        }
+
+        // documents of patch get different slugs
+        const paths = this.getSlugLocales().map((locale) => (locale ? `slug.${locale}` : "slug"))
+        for (const path of paths) {
+          const slug = slugUpdate.update[path]
+          const reserved = [...slugUpdates.values()].flatMap((update) => paths.map((slugPath) => update[slugPath])).filter(Boolean)
+          if (slug && reserved.includes(slug)) slugUpdate.update[path] = await uniqueSlug(slug, this.Model, paths, doc._id, reserved)
+        }
+
+        slugUpdates.set(id, slugUpdate.update)
+      }
+
+      allowedDocs.push(doc)
+    }
+
+    const editedDocs: any[] = []
+    try {
+      // save patch (and slug changes) to all allowed documents together
+      const ids = allowedDocs.map((doc) => doc._id)
+      const update = this.toUpdate(patch)
+      const updates = allowedDocs.map((doc) => ({ updateOne: { filter: { _id: doc._id }, update: { ...update, ...slugUpdates.get(doc._id.toString()) } } }))
+      await withTransaction((session) => this.Model.bulkWrite(updates, { session }))
+
+      const foundDocs = await this.Model.find({ _id: { $in: ids } })
+      for (const doc of allowedDocs) {
+        const editedDoc = foundDocs.find((foundDoc: any) => foundDoc._id.equals(doc._id))
+        if (!editedDoc) continue
+        editedDocs.push(editedDoc)
+
+        // save revision with changed fields
+        if (this.document.versioning?.enabled) {
+          const changedFields = Object.keys(diffSnapshots(doc.toObject({ depopulate: true }), editedDoc.toObject({ depopulate: true })))
+          if (changedFields.length) await this.saveRevision(editedDoc, user?.id ?? editorId, changedFields)
+        }
+
+        report.succeeded.push({ id: editedDoc._id.toString(), message: EDocumentMSG.SUCCESS_EDIT })
+      }
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+
+    for (const editedDoc of editedDocs) {
+      await this.runAfterHooks("afterEdit", editedDoc, user)
+      this.emit(EDocEvents.DOCUMENT_EDITED, editedDoc, user?.id ?? editorId)
+    }
+
+    return this.bulkResult(report)
+  }
+
+  async bulkSetState(target: TBulkTarget, state: EStates, editorId?: string) {
+    return this.bulkEdit(target, { state } as Partial<IModel>, editorId)
+  }
+
+  async bulkDelete(target: TBulkTarget, userId?: string) {
+    const permissions = this.document.permissions?.advance?.delete
+
+    // check if user needed
+    let user = null
+    if (permissions?.role !== ERole.GEST || !permissions?.public) {
+      user = await User.findById(userId)
+      if (!user) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+    }
+
+    // check delete permission (once for all documents)
+    if (permissions?.role !== ERole.GEST) {
+      if (!permissionsCheck(permissions?.role, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), permissions?.role)
+      }
+    }
+
+    const targets = await this.findBulkTargets(target, user)
+    if (targets.error) return targets.error
+
+    const report: IBulkResult = { succeeded: [], failed: [...targets.notFound] }
+    const allowedDocs = []
+    const related: IRelatedChange<Doc<any, any>>[] = []
+    const visited = new Set<string>()
+
+    // check ownership of every document
+    for (const doc of targets.docs) {
+      const id = doc._id.toString()
+
+      if (!permissions?.public && doc.authorId?.toString() !== user?.id) {
+        report.failed.push({ id, message: EDocumentMSG.NO_PERMISSION })
+        continue
+      }
+
+      // relations are applied on purge when soft delete is enabled
+      let changes: IRelatedChange<Doc<any, any>>[] = []
+      if (this.document.softDelete?.enabled) {
+        if (await this.findRestriction([doc._id])) {
+          report.failed.push({ id, message: EDocumentMSG.DOCUMENT_IS_REFERENCED })
+          continue
+        }
+      } else {
+        // related documents of other documents are not changed twice
+        const plan = await this.planDeletePolicies([doc._id], user, new Set([...visited, `${this.document.docName}:${id}`]))
+        if (plan.error) {
+          report.failed.push({ id, message: plan.error.message ?? EDocumentMSG.DOCUMENT_IS_REFERENCED, error: plan.error })
+          continue
+        }
+        changes = plan.changes
+      }
+
+      const hookError = await this.runHooks("beforeDelete", doc, user)
+      if (hookError) {
+        report.failed.push({ id, message: hookError.message ?? EDocumentMSG.NO_PERMISSION, error: hookError })
+        continue
+      }
+
+      for (const change of changes) {
+        for (const item of change.docs) visited.add(`${change.doc.document.docName}:${item._id}`)
+      }
+      related.push(...changes)
+      allowedDocs.push(doc)
+    }
+
+    try {
+      const ids = allowedDocs.map((doc) => doc._id)
+
+      await withTransaction(async (session) => {
+        if (this.document.softDelete?.enabled) {
+          // move documents and their comments to trash
+          const deletedAt = new Date()
+          await this.Model.updateMany({ _id: { $in: ids } }, { deletedAt, deletedBy: user?._id }, { session })
+          await this.CommentModel?.updateMany({ document: { $in: ids }, deletedAt: null }, { deletedAt, deletedBy: user?._id }, { session })
+        } else {
+          // delete documents (with their comments) from DB and delete or nullify related documents
+          await this.removeDocuments(ids, session)
+          await this.applyDeletePolicies(related, user, session)
+        }
+      })
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+
+    for (const doc of allowedDocs) {
+      await this.runAfterHooks("afterDelete", doc, user)
+      this.emit(EDocEvents.DOCUMENT_DELETED, doc, user?.id)
+
+      report.succeeded.push({ id: doc._id.toString(), message: EDocumentMSG.SUCCESS_DELETE })
+    }
+    await this.finishDeletePolicies(related, user)
+
+    return this.bulkResult(report)
+  }
+
+  // create result of bulk operation
+  private bulkResult(report: IBulkResult) {
+    const result: IDocumentResult<IBulkResult> = {
+      status: EStatusCodes.SUCCESS,
+      type: EResultTypes.SUCCESS,
+      data: report,
+      message: EDocumentMSG.SUCCESS_BULK,
+    };
+
+    return result;
+  }
+
+  async export(
+    format: ETransferFormats = ETransferFormats.JSONL,
+    { filter: filterInput, userId, includeComments = false }: { filter?: IDocumentFilter; userId?: string; includeComments?: boolean } = {}
+  ) {
+    let user = null;
+    // check to see who can get all documents
+    if (this.document.permissions?.advance?.getAll !== ERole.GEST) {
+      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+
+      user = await User.findById(userId);
+      if (!permissionsCheck(this.document.permissions?.advance?.getAll, user?.role)) {
+        return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED), this.document.permissions?.advance?.getAll);
+      }
+    }
+
+    // export only documents that user can read
+    const hiddenFields = await this.getHiddenFields(userId, user)
+    const filter: Record<string, any> = await this.getReadFilter(userId, user);
+
+    // add user filters (only filterable fields are accepted)
+    if (filterInput) {
+      const parsedFilter = parseFilter(filterInput, (await this.getFilterableFields()).filter((field) => !hiddenFields.includes(field)), await this.getVariableCaster())
+      if (parsedFilter.error) return this.result.singleError(parsedFilter.error.field, parsedFilter.error.message)
+
+      if (parsedFilter.query.$and) filter.$and = [...(filter.$and ?? []), ...parsedFilter.query.$and]
+    }
+
+    try {
+      const docs = await this.Model.find(filter, this.getProjection(hiddenFields)).sort({ _id: 1 })
+
+      // get slugs of categories
+      const categorySlugs = new Map<string, string>()
+      if (this.CategoryModel && this.document.category?.enabled) {
+        const categoryIds = [...new Set(docs.flatMap((doc) => (doc.categories ?? []).map(String)))]
+        for (const category of await this.CategoryModel.find({ _id: { $in: categoryIds } })) {
+          categorySlugs.set(category._id.toString(), category.slug)
+        }
+      }
+
+      // get accepted comments of documents
+      const comments = new Map<string, IComment[]>()
+      if (includeComments && this.CommentModel && this.document.comments?.enabled) {
+        const filter = { document: { $in: docs.map((doc) => doc._id) }, state: ECommentState.ACCEPTED, ...this.notDeletedFilter() }
+        for (const comment of await this.CommentModel.find(filter).sort({ createdAt: 1 })) {
+          const documentId = comment.document.toString()
+          comments.set(documentId, [...(comments.get(documentId) ?? []), comment.toObject({ depopulate: true })])
+        }
+      }
+
+      const rows = docs.map((doc) => {
+        const { __v, ...row } = doc.toObject({ depopulate: true })
+
+        if (Array.isArray(row.categories)) row.categories = row.categories.map((id: unknown) => categorySlugs.get(String(id)) ?? String(id))
+        if (includeComments) row.comments = comments.get(doc._id.toString()) ?? []
+
+        return row
+      })
+
+      // create result
+      const result: IDocumentResult<string> = {
+        status: EStatusCodes.SUCCESS,
+        type: EResultTypes.SUCCESS,
+        data: serializeRows(rows, format),
+        message: EDocumentMSG.SUCCESS_EXPORT,
+      };
+
+      return result;
+    } catch (error) {
+      return handleModelErrors(error)
+    }
+  }
+
+  // check if field keeps array or object (csv cells of these fields are json)
+  private isJsonField(field: string) {
+    if (this.Model.schema.pathType(field) === "nested") return true
+    return ["Array", "Mixed", "Embedded"].includes(this.Model.schema.path(field)?.instance)
+  }
+
+  async import(
+    content: string,
+    format: ETransferFormats = ETransferFormats.JSONL,
+    { userId, upsertBy, dryRun = false }: { userId?: string; upsertBy?: TUpsertKey; dryRun?: boolean } = {}
+  ) {
+    // parse rows of file
+    let rows: Record<string, any>[]
+    try {
+      rows = parseRows(content, format, (column) => this.isJsonField(column))
+    } catch (error) {
+      return this.result.singleError("content", EDocumentMSG.INVALID_IMPORT_FILE)
+    }
+
+    const report: IImportResult = { created: [], updated: [], failed: [], dryRun }
+
+    for (const [index, row] of rows.entries()) {
+      // comments, meta, slug and trash fields are not imported (export writes them)
+      const { comments, __v, createdAt, updatedAt, deletedAt, deletedBy, ...data } = row
+      for (const field of SLUG_META_FIELDS) delete data[field]
+
+      // resolve category slugs to ids
+      if (Array.isArray(data.categories) && this.CategoryModel) {
+        const slugs = data.categories.map(String)
+        const categories = await this.CategoryModel.find({ slug: { $in: slugs } })
+
+        const missing = slugs.find((slug: string) => !categories.some((category) => category.slug === slug))
+        if (missing) {
+          report.failed.push({ index, message: ECategoryMSG.CATEGORY_NOT_FOUND, error: this.result.singleError("categories", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND) })
+          continue
+        }
+
+        data.categories = slugs.map((slug: string) => categories.find((category) => category.slug === slug)._id)
+      }
+
+      // find document to update
+      const existing = upsertBy ? await this.findUpsertTarget(data, upsertBy) : null
+
+      if (existing) {
+        delete data._id
+
+        if (dryRun) {
+          // check permissions and validate document with new data without saving
+          const { error } = await this.checkEdit(existing, data as Partial<IModel>, userId)
+          if (error) {
+            report.failed.push({ index, id: existing.id, message: error.message ?? EDocumentMSG.NO_PERMISSION, error })
+            continue
+          }
+
+          try {
+            // only imported fields are validated so errors don't show values of other fields
+            await new this.Model({ ...existing.toObject(), ...data }).validate(Object.keys(data))
+          } catch (error) {
+            report.failed.push({ index, id: existing.id, message: EDocumentMSG.INVALID_DATA, error: handleModelErrors(error) })
+            continue
+          }
+
+          report.updated.push({ index, id: existing.id, message: EDocumentMSG.SUCCESS_EDIT })
+          continue
+        }
+
+        const result: IDocumentResult<unknown> = await this.edit(existing.id, data as Partial<IModel>, userId)
+        if (result?.type === EResultTypes.SUCCESS) report.updated.push({ index, id: existing.id, message: EDocumentMSG.SUCCESS_EDIT })
+        else report.failed.push({ index, id: existing.id, message: result?.message ?? EDocumentMSG.INVALID_DATA, error: result })
+        continue
+      }
+
+      // ids of new documents are only imported when documents are matched by id
+      if (upsertBy !== "_id") delete data._id
+
+      if (dryRun) {
+        // check permissions and validate new document without saving
+        const { error } = await this.checkCreate(data as IPreModel, userId)
+        if (error) {
+          report.failed.push({ index, message: error.message ?? EDocumentMSG.NO_PERMISSION, error })
+          continue
+        }
+
+        try {
+          await new this.Model(data).validate()
+        } catch (error) {
+          report.failed.push({ index, message: EDocumentMSG.INVALID_DATA, error: handleModelErrors(error) })
+          continue
+        }
+
+        report.created.push({ index, message: EDocumentMSG.SUCCESS_CREATE })
+        continue
+      }
+
+      const result: IDocumentResult<unknown> = await this.create(data as IPreModel, userId)
+      const created = result?.data as { _id?: mongoose.Types.ObjectId } | undefined
+      if (result?.type === EResultTypes.SUCCESS) report.created.push({ index, id: created?._id?.toString(), message: EDocumentMSG.SUCCESS_CREATE })
+      else report.failed.push({ index, message: result?.message ?? EDocumentMSG.INVALID_DATA, error: result })
+    }
+
+    const result: IDocumentResult<IImportResult> = {
+      status: EStatusCodes.SUCCESS,
+      type: EResultTypes.SUCCESS,
+      data: report,
+      message: EDocumentMSG.SUCCESS_IMPORT,
+    };
+
+    return result;
+  }
+
+  // get json schema of create or edit payload of documents
+  getJsonSchema(mode: TPayloadMode = "create") {
+    return toJsonSchema(this.Model.schema, { mode, omit: [...META_FIELDS, "deletedAt", "deletedBy", ...SLUG_META_FIELDS] })
+  }
+
+  // get openapi fragment of document, comment and category operations
+  getOpenApi() {
+    const name = this.document.docName
+    const schemas: Record<string, IJsonSchema> = {
+      [name]: toJsonSchema(this.Model.schema, { mode: "edit" }),
+      [name + "Create"]: this.getJsonSchema("create"),
+      [name + "Edit"]: this.getJsonSchema("edit"),
+    }
+
+    if (this.CommentModel && this.document.comments?.enabled) {
+      // fields that are set by moderation and reactions
+      const systemFields = [...META_FIELDS, "user", "state", "rejectReason", "moderatedBy", "moderatedAt", "reactionCounts", "score", "rank", "deletedAt", "deletedBy"]
+
+      schemas[name + "Comment"] = toJsonSchema(this.CommentModel.schema, { mode: "edit" })
+      schemas[name + "CommentCreate"] = toJsonSchema(this.CommentModel.schema, { mode: "create", omit: systemFields })
+      schemas[name + "CommentEdit"] = toJsonSchema(this.CommentModel.schema, { mode: "edit", omit: [...systemFields, "document", "parent"] })
+    }
+
+    if (this.CategoryModel && this.document.category?.enabled) {
+      schemas[name + "Category"] = toJsonSchema(this.CategoryModel.schema, { mode: "edit" })
+      schemas[name + "CategoryCreate"] = toJsonSchema(this.CategoryModel.schema, { mode: "create", omit: [...META_FIELDS, "authorId", ...SLUG_META_FIELDS] })
+      schemas[name + "CategoryEdit"] = toJsonSchema(this.CategoryModel.schema, { mode: "edit", omit: [...META_FIELDS, ...SLUG_META_FIELDS] })
+    }
+
+    if (this.FieldDefModel) {
+      schemas[name + "FieldDef"] = toJsonSchema(this.FieldDefModel.schema, { mode: "create", omit: META_FIELDS })
+    }
+
+    return buildOpenApi(name, getDocOperations(this.document), schemas)
+  }
+
+  // get slug field of payload that only slug changes can write
+  private getSlugMetaField(data: unknown) {
+    if (data && typeof data === "object") return SLUG_META_FIELDS.find((field) => field in data)
+  }
+
+  // validate payload with json schema before any DB work
+  private validateInput(data: unknown, mode: TPayloadMode) {
+    // old slugs and slug locks are only written by slug changes
+    const slugField = this.getSlugMetaField(data)
+    if (slugField) return this.result.singleError(slugField, EDocumentMSG.FIELD_NOT_WRITABLE)
+
+    const error = validateJsonSchema(data, this.getJsonSchema(mode))
+    if (error) return this.result.singleError(error.field, error.message)
+  }
+
+  Comment = {
+    // get one comment
+    getComment: async (id: string, userId?: string) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      const user = userId ? await User.findById(userId) : null
+
+      // users who can't verify comments only see accepted comments
+      const filter: Record<string, any> = this.notDeletedFilter()
+      if (!this.canVerifyComments(user)) filter.state = ECommentState.ACCEPTED
+
+      // get comment
+      const comment = await this.CommentModel.findOne({ _id: id, ...filter }).populate({ path: "children", match: filter })
+      if (!comment || !(await this.canReadDocument(comment.document, userId, user))) {
+        return this.commentResult.singleError("comment", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
+  
+      return this.commentResult.success(comment, ECommentMSG.SUCCESS, EStatusCodes.SUCCESS)
+    },
+
+    // get single document comments
+    getDocumentComments: async (identity:string, page:number, limit:number, sort: ECommentSort = ECommentSort.NEWEST, userId?: string) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      // validate page and limit
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+  
+      // generate skip
+      const skip = (page - 1) * limit;
+  
+      // get document and create filter obj
+      const document = await this.findDocument(identity)
+      if (!document || !(await this.canReadDocument(document._id, userId))) {
+        return this.commentResult.singleError("document", ECommentMSG.ARTICLE_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
+      const filter = {document: document._id, parent: null, state: ECommentState.ACCEPTED, ...this.notDeletedFilter()}
+  
+      try {
+          // get comments
+          const comments = await this.CommentModel.find(filter)
+              .populate({ path: "children", match: { state: ECommentState.ACCEPTED, ...this.notDeletedFilter() } })
+              .sort(this.getCommentSort(sort))
+              .skip(skip)
+              .limit(limit)
+  
+          // get total number of comments base on filter
+          const totalComments = await this.CommentModel.countDocuments(filter);
+  
+          // get page data
+          const pageData = getPageData(page, limit, totalComments);
+  
+          // create result
+          const res: IDocumentResult<IComment[]> = {
+              type: EResultTypes.SUCCESS,
+              status: EStatusCodes.SUCCESS,
+              data: comments as IComment[],
+              pageData,
+          }
+  
+          return res
+      } catch (error) {
+          return handleModelErrors(error);
+      }
+    },
+
+    // get accepted comments of document as nested tree (top level comments are paginated)
+    getThread: async (identity: string, page: number, limit: number, maxDepth?: number, sort: ECommentSort = ECommentSort.NEWEST, userId?: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      // validate page, limit and depth
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+      const depthLimit = this.document.comments.maxDepth ?? 3
+      maxDepth = Math.min(ConvertToNaturalNumber(maxDepth ?? depthLimit), depthLimit);
+
+      // generate skip
+      const skip = (page - 1) * limit;
+
+      // get document
+      const document = await this.findDocument(identity)
+      if (!document || !(await this.canReadDocument(document._id, userId))) {
+        return this.commentResult.singleError("document", ECommentMSG.ARTICLE_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
+      const filter = { document: document._id, parent: null, state: ECommentState.ACCEPTED, ...this.notDeletedFilter() }
+
+      try {
+        // get top level comments
+        const comments = await this.CommentModel.find(filter).sort(this.getCommentSort(sort)).skip(skip).limit(limit)
+
+        // get total number of top level comments
+        const totalComments = await this.CommentModel.countDocuments(filter);
+
+        // get page data
+        const pageData = getPageData(page, limit, totalComments);
+
+        // create result
+        const res: IDocumentResult<ICommentThread[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: await this.loadCommentThread(comments, maxDepth),
+          pageData,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // load more replies of comment (for deep branches)
+    getReplies: async (commentId: string, page: number, limit: number, maxDepth?: number, userId?: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      // validate page, limit and depth
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+      const depthLimit = this.document.comments.maxDepth ?? 3
+      maxDepth = Math.min(ConvertToNaturalNumber(maxDepth ?? depthLimit), depthLimit);
+
+      // generate skip
+      const skip = (page - 1) * limit;
+
+      // check if comment exist
+      const comment = await this.CommentModel.findOne({ _id: commentId, state: ECommentState.ACCEPTED, ...this.notDeletedFilter() })
+      if (!comment || !(await this.canReadDocument(comment.document, userId))) {
+        return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
+      const filter = { parent: comment._id, state: ECommentState.ACCEPTED, ...this.notDeletedFilter() }
+
+      try {
+        // get direct replies
+        const replies = await this.CommentModel.find(filter).sort({ createdAt: 1 }).skip(skip).limit(limit)
+
+        // get total number of direct replies
+        const totalReplies = await this.CommentModel.countDocuments(filter);
+
+        // get page data
+        const pageData = getPageData(page, limit, totalReplies);
+
+        // create result
+        const res: IDocumentResult<ICommentThread[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: await this.loadCommentThread(replies, maxDepth),
+          pageData,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // get all comments
+    getComments: async (page: number, limit: number, { filter = {}, sort = "-createdAt", userId }: { filter?: IDocumentFilter; sort?: string; userId?: string } = {}) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      // only whitelisted fields can be filtered
+      const parsedFilter = parseFilter(filter, COMMENT_FILTER_FIELDS)
+      if (parsedFilter.error) return this.commentResult.singleError(parsedFilter.error.field, parsedFilter.error.message)
+
+      // validate sort fields
+      const sortSpec = parseSort([sort])
+      const invalidSort = sortSpec.find(([field]) => !COMMENT_SORT_FIELDS.includes(field))
+      if (invalidSort) return this.commentResult.singleError(invalidSort[0], EDocumentMSG.FIELD_NOT_SORTABLE)
+
+      const user = userId ? await User.findById(userId) : null
+      const query: Record<string, any> = { ...parsedFilter.query, ...this.notDeletedFilter() }
+
+      // users who can't verify comments only see accepted comments
+      if (!this.canVerifyComments(user)) query.state = ECommentState.ACCEPTED
+
+      // hide comments of documents that user can't read
+      query.document = { $in: await this.Model.find(await this.getReadFilter(userId, user)).distinct("_id") }
+
+      // validate page and limit
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+  
+      // generate skip
+      const skip = (page - 1) * limit;
+  
+      try {
+          // get comments
+          const comments = await this.CommentModel.find(query).skip(skip).limit(limit).sort(toMongoSort(sortSpec));
+  
+          // get total number of comments base on filter
+          const totalComments = await this.CommentModel.countDocuments(query);
+  
+          // get page data
+          const pageData = getPageData(page, limit, totalComments);
+  
+          // create result
+          const res: IDocumentResult<IComment[]> = {
+              type: EResultTypes.SUCCESS,
+              status: EStatusCodes.SUCCESS,
+              data: comments as IComment[],
+              pageData,
+          }
+  
+          return res
+      } catch (error) {
+          return handleModelErrors(error);
+      }
+    },
+
+    // create new comment
+    newComment: async (data: IPreComment, userId: string) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      // check user id
+      const user = await User.findById(userId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+  
+      // moderation, reaction and author fields can't be set by user
+      data = Object.fromEntries(Object.entries(data).filter(([field]) => COMMENT_CREATE_FIELDS.includes(field))) as IPreComment;
+
+      // set user and state for creating comment
+      data.user = user._id.toString();
+      const state = this.document.comments.needToVerify ? ECommentState.WAITING : ECommentState.ACCEPTED;
+
+      // check if parent exist and belongs to same document
+      if (data.parent) {
+          const parent = mongoose.isValidObjectId(data.parent) ? await this.CommentModel.findOne({ _id: data.parent, ...this.notDeletedFilter() }) : null;
+          if (!parent || parent.document.toString() !== data.document?.toString()) {
+              return this.commentResult.singleError("parent", ECommentMSG.PARENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+          }
+      }
+  
+      // run before hooks
+      const hookError = await this.runHooks("beforeComment", data, user);
+      if (hookError) return hookError;
+  
+      let comment
+      try {
+          comment = await this.CommentModel.create({ ...data, state });
+      } catch (error) {
+          return handleModelErrors(error);
+      }
+
+      await this.runAfterHooks("afterComment", comment, user);
+      this.emit(EDocEvents.COMMENT_CREATED, comment, user.id);
+      if (comment.state === ECommentState.WAITING) this.emit(EDocEvents.COMMENT_WAITING, comment, user.id);
+
+      return this.commentResult.success(comment, ECommentMSG.SUCCESS_CREATE, EStatusCodes.SUCCESS_CREATE);
+    },
+
+    // edit comment
+    editComment: async (commentId: string, data: Partial<IComment>, editorId: string) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      // check if user exist
+      const user = await User.findById(editorId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+      // check if comment exist
+      const comment = await this.CommentModel.findOne({ _id: commentId, ...this.notDeletedFilter() });
+      if (!comment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+
+      // check editor permission
+      if (comment.user?.toString() !== user.id && !permissionsCheck(this.document.comments.canMange, user.role)) {
+          return this.commentResult.singleError("editor", ECommentMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN);
+      }
+
+      // author, document and parent of comment can't be changed
+      data = Object.fromEntries(Object.entries(data).filter(([field]) => COMMENT_EDITABLE_FIELDS.includes(field)));
+  
+      // check user if user can not verify comment then send it back for verification (if enabled)
+      if (!(await this.canModerateComment(comment, user))) {
+          if (this.document.comments.reverifyOnEdit ?? this.document.comments.needToVerify) {
+              data.state = ECommentState.WAITING;
+          } else {
+              // users who can't verify comments can't change state
+              delete data.state;
+          }
+      }
+  
+      try {
+          const newComment = await this.CommentModel.findByIdAndUpdate(commentId, data, { new: true });
+  
+          // check if comment exist
+          if (!newComment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+  
+          this.emit(EDocEvents.COMMENT_EDITED, newComment, user.id);
+          if (newComment.state === ECommentState.WAITING && comment.state !== ECommentState.WAITING) {
+              this.emit(EDocEvents.COMMENT_WAITING, newComment, user.id);
+          }
+
+          return this.commentResult.success(newComment, ECommentMSG.SUCCESS_EDIT, EStatusCodes.SUCCESS);
+      } catch (error) {
+          return handleModelErrors(error);
+      }
+    },
+
+    // accept comment
+    approve: async (commentId: string, userId: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      return this.moderateComment(commentId, userId, ECommentState.ACCEPTED)
+    },
+
+    // reject comment with optional reason
+    reject: async (commentId: string, userId: string, reason?: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      return this.moderateComment(commentId, userId, ECommentState.REJECTED, reason)
+    },
+
+    // change state of many comments
+    bulkModerate: async (ids: string[], state: ECommentState, userId: string, reason?: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+
+      // only moderation states are accepted
+      if (![ECommentState.ACCEPTED, ECommentState.REJECTED, ECommentState.WAITING].includes(state)) {
+        return this.commentResult.singleError("state", ECommentMSG.INVALID_STATE)
+      }
+
+      // check if user exist
+      const user = await User.findById(userId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+      // check role once for all comments
+      if (!permissionsCheck(this.document.comments.canVerify.role, user.role)) {
+        return this.roleError(this.commentResult.singleError("user", ECommentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), this.document.comments.canVerify.role);
+      }
+
+      const report: IBulkModerateResult = { moderated: [], failed: [] }
+
+      try {
+        const validIds = ids.filter((id) => mongoose.isValidObjectId(id))
+        const comments = await this.CommentModel.find({ _id: { $in: validIds }, ...this.notDeletedFilter() })
+
+        // check permission for each comment
+        const allowedIds: string[] = []
+        for (const id of ids) {
+          const comment = comments.find((comment) => comment._id.toString() === id)
+          if (!comment) report.failed.push({ id, message: ECommentMSG.COMMENT_NOT_FOUND })
+          else if (!(await this.canModerateComment(comment, user))) report.failed.push({ id, message: ECommentMSG.NO_PERMISSION })
+          else allowedIds.push(id)
+        }
+
+        // change state of allowed comments
+        await this.CommentModel.updateMany(
+          { _id: { $in: allowedIds } },
+          {
+            state,
+            moderatedBy: user._id,
+            moderatedAt: new Date(),
+            ...(state === ECommentState.REJECTED && reason ? { rejectReason: reason } : { $unset: { rejectReason: 1 } }),
+          }
+        )
+        report.moderated = allowedIds
+
+        // publish event for every moderated comment
+        const event = state === ECommentState.ACCEPTED
+          ? EDocEvents.COMMENT_ACCEPTED
+          : state === ECommentState.REJECTED ? EDocEvents.COMMENT_REJECTED : EDocEvents.COMMENT_WAITING
+        for (const comment of await this.CommentModel.find({ _id: { $in: allowedIds } })) this.emit(event, comment, user.id)
+
+        // create result
+        const res: IDocumentResult<IBulkModerateResult> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: report,
+          message: ECommentMSG.SUCCESS_MODERATE,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // get waiting comments of all documents
+    getModerationQueue: async (page: number, limit: number, userId: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      const permissions = this.document.comments.canVerify
+
+      // check if user exist
+      const user = await User.findById(userId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+      // check verify permission
+      if (!permissionsCheck(permissions.role, user.role)) {
+        return this.roleError(this.commentResult.singleError("user", ECommentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions.role);
+      }
+
+      // validate page and limit
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+
+      // generate skip
+      const skip = (page - 1) * limit;
+
+      try {
+        const filter: Record<string, any> = { state: ECommentState.WAITING, ...this.notDeletedFilter() }
+
+        // only show comments of user's documents if verifiers can't moderate other's documents
+        if (!permissions.public) {
+          filter.document = { $in: await this.Model.find({ authorId: user._id }).distinct("_id") }
+        }
+
+        // get oldest waiting comments first
+        const comments = await this.CommentModel.find(filter).sort({ createdAt: 1 }).skip(skip).limit(limit);
+
+        // get total number of waiting comments
+        const totalComments = await this.CommentModel.countDocuments(filter);
+
+        // get page data
+        const pageData = getPageData(page, limit, totalComments);
+
+        // create result
+        const res: IDocumentResult<IComment[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: comments as IComment[],
+          pageData,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // add or change reaction of user to comment
+    react: async (commentId: string, type: string, userId: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      if (!this.ReactionModel || !this.document.comments.reactions?.enabled) return new Error("reactions are disabled")
+      const reactions = this.document.comments.reactions
+
+      // check reaction type
+      if (!(reactions.types ?? ["up", DOWN_VOTE]).includes(type)) {
+        return this.commentResult.singleError("type", ECommentMSG.INVALID_REACTION)
+      }
+
+      // check if user exist
+      const user = await User.findById(userId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+      // check react permission
+      if (!permissionsCheck(reactions.canReact ?? this.document.comments.canWrite, user.role)) {
+        return this.roleError(this.commentResult.singleError("user", ECommentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), reactions.canReact ?? this.document.comments.canWrite);
+      }
+
+      // only accepted comments can get reactions
+      const comment = await this.CommentModel.findOne({ _id: commentId, state: ECommentState.ACCEPTED, ...this.notDeletedFilter() })
+      if (!comment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+
+      try {
+        // replace previous reaction of user
+        await this.ReactionModel.findOneAndUpdate({ comment: comment._id, user: user._id }, { type }, { upsert: true })
+
+        const newComment = await this.updateCommentReactions(comment._id)
+        return this.commentResult.success(newComment, ECommentMSG.SUCCESS_REACT, EStatusCodes.SUCCESS);
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // remove reaction of user from comment
+    unreact: async (commentId: string, userId: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      if (!this.ReactionModel || !this.document.comments.reactions?.enabled) return new Error("reactions are disabled")
+
+      // check if user exist
+      const user = await User.findById(userId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+      try {
+        const reaction = await this.ReactionModel.findOneAndDelete({ comment: commentId, user: user._id })
+        if (!reaction) return this.commentResult.singleError("commentId", ECommentMSG.REACTION_NOT_FOUND, EStatusCodes.NOT_FOUND);
+
+        const newComment = await this.updateCommentReactions(reaction.comment)
+        return this.commentResult.success(newComment, ECommentMSG.SUCCESS_UNREACT, EStatusCodes.SUCCESS);
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // get reactions of user to comments (comment id => reaction type)
+    getMyReactions: async (commentIds: string[], userId: string) => {
+      if (!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      if (!this.ReactionModel || !this.document.comments.reactions?.enabled) return new Error("reactions are disabled")
+
+      try {
+        const reactions = await this.ReactionModel.find({
+          comment: { $in: commentIds.filter((id) => mongoose.isValidObjectId(id)) },
+          user: userId,
+        })
+
+        // create result
+        const res: IDocumentResult<Record<string, string>> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: Object.fromEntries(reactions.map((reaction) => [reaction.comment.toString(), reaction.type])),
+          message: ECommentMSG.SUCCESS,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // delete comments
+    deleteComment: async (commentId: string, editorId: string) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      
+      // check if user exist
+      const user = await User.findById(editorId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+  
+      const comment = await this.CommentModel.findById(commentId).populate("children");
+  
+      // check if comment exist
+      if (!comment || comment.deletedAt) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+  
+      // check editor permission
+      if (comment.user?.toString() !== user.id && !permissionsCheck(this.document.comments.canMange, user.role)) {
+          return this.commentResult.singleError("editor", ECommentMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN);
+      }
+  
+      try {
+          if (this.document.softDelete?.enabled) {
+              // move comment to trash
+              comment.deletedAt = new Date();
+              comment.deletedBy = user._id;
+              await comment.save();
+          } else {
+              // delete comment and reactions of it and its children from db
+              await this.ReactionModel?.deleteMany({ comment: { $in: [comment._id, ...(comment.children ?? []).map((child: any) => child._id)] } });
+              await comment.deleteOne();
+          }
+  
+          // change state of all comment children
+          if (comment.children) {
+              for (const child of comment.children) {
+                  await this.CommentModel.findByIdAndUpdate(child._id, {state: ECommentState.PARENT_DELETED})
+              }
+          }
+  
+          this.emit(EDocEvents.COMMENT_DELETED, comment, user.id);
+
+          return this.commentResult.success(comment, ECommentMSG.SUCCESS_DELETE, EStatusCodes.SUCCESS);
+      } catch (error) {
+          return handleModelErrors(error);
+      }
+    },
+
+    // restore comment from trash
+    restore: async (commentId: string, userId: string) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      if (!this.document.softDelete?.enabled) return new Error("soft delete is disabled")
+
+      // check if user exist
+      const user = await User.findById(userId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+      // check if comment is in trash
+      const comment = mongoose.isValidObjectId(commentId) ? await this.CommentModel.findById(commentId) : null;
+      if (!comment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+      if (!comment.deletedAt) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_IN_TRASH);
+
+      // check editor permission
+      if (comment.user?.toString() !== user.id && !permissionsCheck(this.document.comments.canMange, user.role)) {
+          return this.commentResult.singleError("editor", ECommentMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN);
+      }
+
+      // comments of deleted documents are restored with their document
+      if (!(await this.Model.exists({ _id: comment.document, ...this.notDeletedFilter() }))) {
+          return this.commentResult.singleError("document", ECommentMSG.ARTICLE_NOT_FOUND, EStatusCodes.NOT_FOUND);
+      }
+
+      try {
+          comment.deletedAt = null;
+          comment.deletedBy = undefined;
+          await comment.save();
+
+          this.emit(EDocEvents.COMMENT_RESTORED, comment, user.id);
+
+          return this.commentResult.success(comment, ECommentMSG.SUCCESS_RESTORE, EStatusCodes.SUCCESS);
+      } catch (error) {
+          return handleModelErrors(error);
+      }
+    },
+
+    // delete comment from trash forever
+    purge: async (commentId: string, userId: string) => {
+      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+      if (!this.document.softDelete?.enabled) return new Error("soft delete is disabled")
+
+      // check if user exist
+      const user = await User.findById(userId);
+      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
+
+      // check if comment is in trash
+      const comment = mongoose.isValidObjectId(commentId) ? await this.CommentModel.findById(commentId).populate("children") : null;
+      if (!comment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
+      if (!comment.deletedAt) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_IN_TRASH);
+
+      // check editor permission
+      if (comment.user?.toString() !== user.id && !permissionsCheck(this.document.comments.canMange, user.role)) {
+          return this.commentResult.singleError("editor", ECommentMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN);
+      }
+
+      try {
+          // delete comment and reactions of it and its children from db (same as delete without trash)
+          await this.ReactionModel?.deleteMany({ comment: { $in: [comment._id, ...(comment.children ?? []).map((child: any) => child._id)] } });
+          await comment.deleteOne();
+
+          this.emit(EDocEvents.COMMENT_PURGED, comment, user.id);
+
+          return this.commentResult.success(comment, ECommentMSG.SUCCESS_PURGE, EStatusCodes.SUCCESS);
+      } catch (error) {
+          return handleModelErrors(error);
+      }
+    }
+  }
+  Audit = {
+    // get audit log entries
+    getAll: async (page: number, limit: number, { filter = {}, userId }: { filter?: IAuditFilter; userId?: string } = {}) => {
+      if (!this.AuditModel || !this.document.audit?.enabled) return new Error("audit is disabled")
+      const canRead = this.document.audit.canRead ?? this.document.permissions?.write ?? ERole.SELLER
+
+      // check to see who can read audit log
+      if (canRead !== ERole.GEST) {
+        if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        const user = await User.findById(userId)
+        if (!permissionsCheck(canRead, user?.role)) {
+          return this.roleError(this.result.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), canRead)
+        }
+      }
+
+      // validate page and limit
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+
+      // generate skip
+      const skip = (page - 1) * limit;
+
+      // generate filter object for mongoose (only known fields are used)
+      const query: Record<string, any> = {}
+      if (filter.actor) query.actor = String(filter.actor)
+      if (filter.action) query.action = String(filter.action)
+      if (filter.target) query.target = String(filter.target)
+      if (filter.succeeded !== undefined) query.succeeded = String(filter.succeeded) === "true"
+      if (filter.from || filter.to) {
+        query.createdAt = {}
+        if (filter.from) query.createdAt.$gte = new Date(filter.from)
+        if (filter.to) query.createdAt.$lte = new Date(filter.to)
+      }
+
+      try {
+        // get entries
+        const entries = await this.AuditModel.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit);
+
+        // get total number of entries
+        const totalEntries = await this.AuditModel.countDocuments(query);
+
+        // get page data
+        const pageData = getPageData(page, limit, totalEntries);
+
+        // create result
+        const res: IDocumentResult<IAuditEntry[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: entries as IAuditEntry[],
+          message: EDocumentMSG.AUDIT_FOUND,
+          pageData,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+  }
+
+  Revision = {
+    // get revisions of document
+    getAll: async (identity: string, page: number, limit: number, userId?: string) => {
+      if (!this.RevisionModel || !this.document.versioning?.enabled) return new Error("versioning is disabled")
+
+      // check to see who can get revisions
+      let user = null
+      if (this.document.permissions?.advance?.getRevisions !== ERole.GEST) {
+        if (!userId) return this.revisionResult.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        user = await User.findById(userId)
+        if (!permissionsCheck(this.document.permissions?.advance?.getRevisions, user?.role)) {
+          return this.roleError(this.revisionResult.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), this.document.permissions?.advance?.getRevisions)
+        }
+      }
+
+      // hide revisions of documents that user can't read
+      const document = await this.findDocument(identity)
+      if (!document || !(await this.canReadDocument(document._id, userId, user))) {
+        return this.revisionResult.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
+
+      // validate page and limit
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+
+      // generate skip
+      const skip = (page - 1) * limit;
+
+      try {
+        // get revisions (without snapshots)
+        const revisions = await this.RevisionModel.find({ document: document._id })
+          .select("-snapshot")
+          .sort({ version: -1 })
+          .skip(skip)
+          .limit(limit);
+
+        // get total number of revisions
+        const totalRevisions = await this.RevisionModel.countDocuments({ document: document._id });
+
+        // get page data
+        const pageData = getPageData(page, limit, totalRevisions);
+
+        // remove fields that user can't read from changed fields
+        const hiddenFields = await this.getHiddenFields(userId, user)
+        const data = revisions.map((revision: any) => {
+          const item: IRevision = revision.toObject()
+          item.changedFields = item.changedFields.filter((field) => !hiddenFields.includes(field))
+          return item
+        })
+
+        // create result
+        const res: IDocumentResult<IRevision[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data,
+          pageData,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // compare two revisions of document field by field
+    diff: async (identity: string, fromVersion: number, toVersion: number, userId?: string) => {
+      if (!this.RevisionModel || !this.document.versioning?.enabled) return new Error("versioning is disabled")
+
+      // check to see who can get revisions
+      let user = null
+      if (this.document.permissions?.advance?.getRevisions !== ERole.GEST) {
+        if (!userId) return this.revisionResult.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        user = await User.findById(userId)
+        if (!permissionsCheck(this.document.permissions?.advance?.getRevisions, user?.role)) {
+          return this.roleError(this.revisionResult.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), this.document.permissions?.advance?.getRevisions)
+        }
+      }
+
+      // hide revisions of documents that user can't read
+      const document = await this.findDocument(identity)
+      if (!document || !(await this.canReadDocument(document._id, userId, user))) {
+        return this.revisionResult.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
+
+      // get both revisions
+      const from = await this.RevisionModel.findOne({ document: document._id, version: fromVersion })
+      if (!from) return this.revisionResult.singleError("from", EDocumentMSG.REVISION_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      const to = await this.RevisionModel.findOne({ document: document._id, version: toVersion })
+      if (!to) return this.revisionResult.singleError("to", EDocumentMSG.REVISION_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      // remove fields that user can't read
+      const hiddenFields = await this.getHiddenFields(userId, user)
+      const diff = Object.entries(diffSnapshots(from.snapshot, to.snapshot)).filter(([field]) => !hiddenFields.includes(field))
+
+      // create result
+      const res: IDocumentResult<IRevisionDiff> = {
         type: EResultTypes.SUCCESS,
-        data: doc as IModel,
-        pageData,
-      };
+        status: EStatusCodes.SUCCESS,
+        data: Object.fromEntries(diff),
+        message: EDocumentMSG.SUCCESS,
+      }
+
+      return res
+    },
+
+    // restore document to revision (goes through edit permissions)
+    restore: async (identity: string, version: number, editorId?: string) => {
+      if (!this.RevisionModel || !this.document.versioning?.enabled) return new Error("versioning is disabled")
+
+      // check to see who can get revisions
+      let user = null
+      if (this.document.permissions?.advance?.getRevisions !== ERole.GEST) {
+        if (!editorId) return this.revisionResult.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        user = await User.findById(editorId)
+        if (!permissionsCheck(this.document.permissions?.advance?.getRevisions, user?.role)) {
+          return this.roleError(this.revisionResult.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), this.document.permissions?.advance?.getRevisions)
+        }
+      }
+
+      // hide revisions of documents that user can't read
+      const document = await this.findDocument(identity)
+      if (!document || !(await this.canReadDocument(document._id, editorId, user))) {
+        return this.revisionResult.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
+
+      // check edit permissions before revision is read
+      const { error } = await this.checkEdit(document, {}, editorId)
+      if (error) return error
+
+      const revision = await this.RevisionModel.findOne({ document: document._id, version })
+      if (!revision) return this.result.singleError("version", EDocumentMSG.REVISION_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      // only restore fields that changed since revision (slugs follow base field)
+      // fields that were not in revision have no value so they are removed
+      const current = document.toObject({ depopulate: true })
+      const data = Object.fromEntries(
+        Object.entries(diffSnapshots(current, revision.snapshot))
+          .filter(([field]) => !["slug", "slugLocked", "slugHistory"].includes(field))
+          .map(([field, { to }]) => [field, to])
+      ) as Partial<IModel>
+
+      const res = await this.edit(document.id, data, editorId)
+      if (res.type !== EResultTypes.SUCCESS) return res
+
+      return this.result.success(await this.hideFields(await this.Model.findById(document.id), editorId), EDocumentMSG.SUCCESS_RESTORE, EStatusCodes.SUCCESS)
+    },
+  }
+
+  Category = {
+    // get all categories
+    getAll: async (page: number, limit: number, { sort = ["-createdAt"], userId }: { sort?: string[]; userId?: string } = {}) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance
+
+      // check to see who can get all categories
+      if (permissions?.getAll !== ERole.GEST) {
+        if (!userId) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
+
+        const user = await User.findById(userId)
+        if (!permissionsCheck(permissions?.getAll, user?.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.getAll)
+        }
+      }
+
+      // validate sort fields
+      const sortSpec = parseSort(sort)
+      const invalidSort = sortSpec.find(([field]) => !CATEGORY_SORT_FIELDS.includes(field))
+      if (invalidSort) return this.categoryResult.singleError(invalidSort[0], EDocumentMSG.FIELD_NOT_SORTABLE)
+
+      // validate page and limit
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+
+      // generate skip
+      const skip = (page - 1) * limit;
+
+      try {
+        // get categories
+        const categories = await this.CategoryModel.find().sort(toMongoSort(sortSpec)).skip(skip).limit(limit);
+
+        // get total number of categories
+        const totalCategories = await this.CategoryModel.countDocuments();
+
+        // get page data
+        const pageData = getPageData(page, limit, totalCategories);
+
+        // create result
+        const res: IDocumentResult<ICategory[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: categories as ICategory[],
+          pageData,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // get one category by id or slug
+    getOne: async (identity: string, userId?: string) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance
+
+      // check to see who can get category
+      if (permissions?.getOne !== ERole.GEST) {
+        if (!userId) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
+
+        const user = await User.findById(userId)
+        if (!permissionsCheck(permissions?.getOne, user?.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.getOne)
+        }
+      }
+
+      const category = await this.findCategory(identity)
+      if (!category) return this.categoryResult.singleError("category", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      // category is found by old slug
+      const result = this.categoryResult.success(category, ECategoryMSG.SUCCESS, EStatusCodes.SUCCESS)
+      if (category.slugHistory?.includes(identity)) result.moved = { from: identity, to: category.slug }
+      return result
+    },
+
+    // get all categories as nested tree
+    getTree: async (userId?: string) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance
+
+      // check to see who can get all categories
+      if (permissions?.getAll !== ERole.GEST) {
+        if (!userId) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
+
+        const user = await User.findById(userId)
+        if (!permissionsCheck(permissions?.getAll, user?.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.getAll)
+        }
+      }
+
+      try {
+        const categories = await this.CategoryModel.find().sort("name").lean<ICategory[]>()
+
+        // create result
+        const res: IDocumentResult<ICategoryTree[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: buildCategoryTree(categories),
+          message: ECategoryMSG.SUCCESS,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // get breadcrumb path of category (from root category to category itself)
+    getPath: async (identity: string, userId?: string) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance
+
+      // check to see who can get category
+      if (permissions?.getOne !== ERole.GEST) {
+        if (!userId) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
+
+        const user = await User.findById(userId)
+        if (!permissionsCheck(permissions?.getOne, user?.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.getOne)
+        }
+      }
+
+      const category = await this.findCategory(identity)
+      if (!category) return this.categoryResult.singleError("category", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      try {
+        const ancestors = await this.getCategoryAncestors(category._id)
+
+        // create result
+        const res: IDocumentResult<ICategory[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: [...ancestors, category.toObject() as ICategory],
+          message: ECategoryMSG.SUCCESS,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // get one category with its documents
+    getWithDocuments: async (identity: string, page: number, limit: number, userId?: string) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance
+
+      // check to see who can get category and its documents
+      let user = null
+      if (permissions?.getAllAndDocs !== ERole.GEST) {
+        if (!userId) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
+
+        user = await User.findById(userId)
+        if (!permissionsCheck(permissions?.getAllAndDocs, user?.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.getAllAndDocs)
+        }
+      }
+
+      const category = await this.findCategory(identity)
+      if (!category) return this.categoryResult.singleError("category", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      // validate page and limit
+      page = ConvertToNaturalNumber(page);
+      limit = ConvertToNaturalNumber(limit);
+
+      // generate skip
+      const skip = (page - 1) * limit;
+
+      // only show drafts to users who can see them
+      const filter = await this.getReadFilter(userId, user)
+
+      try {
+        // populate documents of category
+        await category.populate({
+          path: this.document.docName.toLowerCase() + "s",
+          match: filter,
+          select: this.getProjection(await this.getHiddenFields(userId, user)),
+          options: { sort: "-createdAt", skip, limit },
+        })
+
+        // get total number of documents in category
+        const totalDocuments = await this.Model.countDocuments({ ...filter, categories: category._id })
+
+        // get page data
+        const pageData = getPageData(page, limit, totalDocuments);
+
+        // create result
+        const res: IDocumentResult<ICategory> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: category as ICategory,
+          message: ECategoryMSG.SUCCESS,
+          pageData,
+        }
+
+        return res
+      } catch (error) {
+        return handleModelErrors(error);
+      }
+    },
+
+    // create new category
+    create: async (data: IPreCategory, authorId?: string) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance
 
-      return result;
-    } catch (error) {
-      return handleModelErrors(error);
-    }
-  }
+      // old slugs and slug locks are only written by slug changes
+      const slugField = this.getSlugMetaField(data)
+      if (slugField) return this.categoryResult.singleError(slugField, ECategoryMSG.FIELD_NOT_WRITABLE)
 
-  async getOne(identity: string, userId?: string) {
-    // check to see who can get document
-    if (this.document.permissions?.advance?.getOne !== ERole.GEST) {
-      if (!userId) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND);
+      // check permissions needed to create
+      if (permissions?.create !== ERole.GEST) {
+        if (!authorId) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
 
-      const user = await User.findById(userId);
+        const user = await User.findById(authorId)
+        if (!user) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
 
-      // if user don't have perm return error
-      if (!permissionsCheck(this.document.permissions?.advance?.getOne, user?.role)) {
-        return this, this.result.singleError("user", EDocumentMSG.NO_PERMISSION);
-      }
-    }
+        if (!permissionsCheck(permissions?.create, user.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.create)
+        }
 
-    const doc = await findDocByIdentity(identity, this.Model)
-    if (!doc) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
+        // set author of category
+        data.authorId = user._id.toString()
+      }
 
-    return this.result.success(doc, EDocumentMSG.SUCCESS)
-  }
+      // check if mother category exist
+      if (data.mother) {
+        const mother = await this.CategoryModel.findById(data.mother)
+        if (!mother) return this.categoryResult.singleError("mother", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      }
 
-  async create(data: IPreModel, authorId?: string) {
-    // check permissions needed to create
-    if (this.document.permissions?.advance?.create !== ERole.GEST) {
-      if (!authorId) return this.result.singleError("user", EDocumentMSG.AUTHOR_NOT_FOUND)
+      try {
+        // save category to DB
+        const category = await this.CategoryModel.create(data)
 
-      const user = await User.findById(authorId)
-      if (!user) return this.result.singleError("user", EDocumentMSG.AUTHOR_NOT_FOUND)
+        this.emit(EDocEvents.CATEGORY_CREATED, category, authorId)
 
-      if (!permissionsCheck(this.document.permissions?.advance?.create, user.role)) {
-        return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
+        return this.categoryResult.success(category, ECategoryMSG.SUCCESS_CREATE, EStatusCodes.SUCCESS_CREATE)
+      } catch (error) {
+        return handleModelErrors(error)
       }
-    }
+    },
 
-    try {
-      // save document to DB
-      const doc = await this.Model.create(data);
+    // edit category
+    edit: async (identity: string, data: Partial<IPreCategory>, editorId?: string) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance?.edit
 
-      return this.result.success(doc, EDocumentMSG.SUCCESS_CREATE, EStatusCodes.SUCCESS_CREATE)
-    } catch (error) {
-      return handleModelErrors(error)
-    }
-  }
+      // old slugs and slug locks are only written by slug changes
+      const slugField = this.getSlugMetaField(data)
+      if (slugField) return this.categoryResult.singleError(slugField, ECategoryMSG.FIELD_NOT_WRITABLE)
 
-  async edit(identity: string, data: Partial<IModel>, editorId?: string) {
-    const permissions = this.document.permissions?.advance?.edit
+      // get category and check if exist
+      const category = await this.findCategory(identity)
+      if (!category) return this.categoryResult.singleError("category", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
 
-    // get document and check if exist
-    const document = await findDocByIdentity(identity, this.Model)
-    if (!document) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND)
+      // check if user needed
+      let user = null
+      if (permissions?.role !== ERole.GEST || !permissions?.public) {
+        user = await User.findById(editorId)
+        if (!user) return this.categoryResult.singleError("user", ECategoryMSG.EDITOR_NOT_FOUND)
+      }
 
-    // check if user needed
-    let user = null
-    if (permissions?.role !== ERole.GEST || !permissions?.public) {
-      user = await User.findById(editorId)
-      // // check if editor exist
-      if (!user) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
-    }
+      // check edit permission
+      if (permissions?.role !== ERole.GEST) {
+        if (!permissionsCheck(permissions?.role, user?.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.role)
+        }
+      }
 
-    // check edit permission
-    if (permissions?.role !== ERole.GEST) {
-      if (!permissionsCheck(permissions?.role, user?.role)) {
-        return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
+      // check to see if other users with perm can edit other's category
+      if (!permissions?.public && category.authorId?.toString() !== user?.id) {
+        return this.categoryResult.singleError("user", ECategoryMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN)
       }
-    }
 
-    // check to see if other users with perm can edit other's document    
-    if (!permissions?.public && document.authorId !== user?.id) {
-      return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
-    }
+      // only managers can change author of category
+      if ('authorId' in data) {
+        if (!permissionsCheck(this.document.category.permissions?.advance?.manage, user?.role)) {
+          delete data.authorId
+        } else if (!(await User.findById(data.authorId))) {
+          return this.categoryResult.singleError("authorId", ECategoryMSG.USER_NOT_FOUND, EStatusCodes.NOT_FOUND)
+        }
+      }
 
-    // check if document author changed author
-    if ('authorId' in data) {
-      // check if new document author exist
-      const newAuthor = await User.findById(data.authorId)
-      if (!newAuthor) return this.result.singleError("new_author", EDocumentMSG.USER_NOT_FOUND, EStatusCodes.NOT_FOUND)
+      // check if new mother category exist
+      if (data.mother) {
+        const mother = await this.CategoryModel.findById(data.mother)
+        if (!mother) return this.categoryResult.singleError("mother", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
 
-      // check if new author has perm
-      if (!permissionsCheck(this.document.permissions?.advance?.create, newAuthor?.role)) {
-        return this.result.singleError("new_author", EDocumentMSG.NEW_AUTHOR_IS_NOT_VALID)
+        // prevent cycles (category can not be moved under itself or its sub categories)
+        const descendants = await this.getCategoryDescendants(category._id)
+        if (mother._id.equals(category._id) || descendants.some((id) => id.equals(mother._id))) {
+          return this.categoryResult.singleError("mother", ECategoryMSG.INVALID_MOTHER, EStatusCodes.CONFLICT)
+        }
       }
-    }
 
-    try {
-      // save new data to DB
-      const newDoc = await this.Model.findByIdAndUpdate(document.id, data)
+      try {
+        // save new data to DB
+        // create slug again when name changes
+        const slugUpdate = await this.getSlugUpdate(this.CategoryModel, category, data, "name")
+        if (slugUpdate.error) return this.categoryResult.singleError(slugUpdate.error.field, slugUpdate.error.message, EStatusCodes.CONFLICT)
 
-      return this.result.success(newDoc, EDocumentMSG.SUCCESS_EDIT, EStatusCodes.SUCCESS_CREATE)
-    } catch (error) {
-      return handleModelErrors(error)
-    }
-  }
+        const newCategory = await this.CategoryModel.findByIdAndUpdate(category.id, { ...data, ...slugUpdate.update }, { new: true })
 
-  async delete(identity: string, userId?: String) {
-    const permissions = this.document.permissions?.advance?.delete
+        this.emit(EDocEvents.CATEGORY_EDITED, newCategory, user?.id ?? editorId)
 
-    // check if document exit
-    const document = await findDocByIdentity(identity, this.Model)
-    if (!document) return this.result.singleError("document", EDocumentMSG.DOCUMENT_NOT_FOUND)
+        return this.categoryResult.success(newCategory, ECategoryMSG.SUCCESS_EDIT, EStatusCodes.SUCCESS)
+      } catch (error) {
+        return handleModelErrors(error)
+      }
+    },
 
-    // check if user needed
-    let user = null
-    if (permissions?.role !== ERole.GEST || !permissions?.public) {
-      user = await User.findById(userId)
-      // // check if editor exist
-      if (!user) return this.result.singleError("user", EDocumentMSG.USER_NOT_FOUND)
-    }
+    // delete category
+    delete: async (identity: string, userId?: string) => {
+      if (!this.CategoryModel || !this.document.category?.enabled) return new Error("categories are disabled")
+      const permissions = this.document.category.permissions?.advance?.delete
+
+      // check if category exist
+      const category = await this.findCategory(identity)
+      if (!category) return this.categoryResult.singleError("category", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      // check if user needed
+      let user = null
+      if (permissions?.role !== ERole.GEST || !permissions?.public) {
+        user = await User.findById(userId)
+        if (!user) return this.categoryResult.singleError("user", ECategoryMSG.USER_NOT_FOUND)
+      }
 
-    if (permissions?.role !== ERole.GEST) {
       // check the permissions
-      if (!permissionsCheck(permissions?.role, user?.role)) {
-        return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
+      if (permissions?.role !== ERole.GEST) {
+        if (!permissionsCheck(permissions?.role, user?.role)) {
+          return this.roleError(this.categoryResult.singleError("user", ECategoryMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), permissions?.role)
+        }
       }
-    }
 
-    // check to see if other users with perm can delete other's document    
-    if (!permissions?.public && document.authorId !== user?.id) {
-      return this.result.singleError("user", EDocumentMSG.NO_PERMISSION)
-    }
+      // check to see if other users with perm can delete other's category
+      if (!permissions?.public && category.authorId?.toString() !== user?.id) {
+        return this.categoryResult.singleError("user", ECategoryMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN)
+      }
 
-    try {
-      // delete document from DB
-      await this.Model.deleteOne()
+      const policy = this.document.category.onDelete ?? ECategoryDeletePolicy.REPARENT
+      const descendants = await this.getCategoryDescendants(category._id)
 
-      return this.result.success(document, EDocumentMSG.SUCCESS_DELETE, EStatusCodes.SUCCESS)
-    } catch (error) {
-      return handleModelErrors(error)
-    }
-  }
+      // block deleting categories that have sub categories
+      if (policy === ECategoryDeletePolicy.BLOCK && descendants.length) {
+        return this.categoryResult.singleError("category", ECategoryMSG.HAS_CHILDREN, EStatusCodes.CONFLICT)
+      }
 
+      // user must be able to delete every sub category that is deleted by cascade
+      if (policy === ECategoryDeletePolicy.CASCADE && descendants.length && !permissions?.public) {
+        if (await this.CategoryModel.exists({ _id: { $in: descendants }, authorId: { $ne: user?._id } })) {
+          return this.categoryResult.singleError("children", ECategoryMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN)
+        }
+      }
 
-  Comment = {
-    // get one comment
-    getComment: async (id: string) => {
-      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
-      // get comment
-      const comment = await this.Model.findById(id).populate("children")
-      if (!comment) return this.commentResult.singleError("comment", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND)
-  
-      return this.commentResult.success(comment, ECommentMSG.SUCCESS, EStatusCodes.SUCCESS)
-    },
+      try {
+        // ids of categories that will be removed
+        const removedIds = [category._id]
 
-    // get single document comments
-    getDocumentComments: async (identity:string, page:number, limit:number) => {
-      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+        if (policy === ECategoryDeletePolicy.CASCADE) {
+          // delete all sub categories
+          await this.CategoryModel.deleteMany({ _id: { $in: descendants } })
+          removedIds.push(...descendants)
+        } else if (category.mother) {
+          // move direct sub categories under mother of deleted category
+          await this.CategoryModel.updateMany({ mother: category._id }, { mother: category.mother })
+        } else {
+          // direct sub categories become root categories
+          await this.CategoryModel.updateMany({ mother: category._id }, { $unset: { mother: 1 } })
+        }
 
-      // validate page and limit
-      page = ConvertToNaturalNumber(page);
-      limit = ConvertToNaturalNumber(limit);
-  
-      // generate skip
-      const skip = (page - 1) * limit;
-  
-      // get document and create filter obj
-      const document = await findDocByIdentity(identity, this.CommentModel)
-      if (!document) return this.commentResult.singleError("article", ECommentMSG.ARTICLE_NOT_FOUND, EStatusCodes.NOT_FOUND)
-      const filter = {article: document._id?.toString() as string, state: ECommentState.ACCEPTED}
-  
-      try {
-          // get comments
-          const comments = await this.CommentModel.find(filter).populate("children").skip(skip).limit(limit)
-  
-          // get total number of comments base on filter
-          const totalComments = await this.CommentModel.countDocuments(filter);
-  
-          // get page data
-          const pageData = getPageData(page, limit, totalComments);
-  
-          // create result
-          const res: IDocumentResult<IComment[]> = {
-              type: EResultTypes.SUCCESS,
-              status: EStatusCodes.SUCCESS,
-              data: comments as IComment[],
-              pageData,
-          }
-  
-          return res
+        // delete category from DB
+        await category.deleteOne()
+
+        // remove deleted categories from documents and custom fields
+        await this.Model.updateMany({ categories: { $in: removedIds } }, { $pull: { categories: { $in: removedIds } } })
+        await this.FieldDefModel?.updateMany({ categories: { $in: removedIds } }, { $pull: { categories: { $in: removedIds } } })
+
+        this.emit(EDocEvents.CATEGORY_DELETED, category, user?.id)
+
+        return this.categoryResult.success(category, ECategoryMSG.SUCCESS_DELETE, EStatusCodes.SUCCESS)
       } catch (error) {
-          return handleModelErrors(error);
+        return handleModelErrors(error)
       }
     },
+  }
+
+  FieldDef = {
+    // get definitions of custom fields (only fields of category and global fields when category is given)
+    getAll: async ({ category, userId }: { category?: string; userId?: string } = {}) => {
+      if (!this.FieldDefModel) return new Error("custom fields are disabled")
+
+      // users who can get documents can get definitions of their fields
+      const role = this.document.permissions?.advance?.getAll
+      if (role !== ERole.GEST) {
+        const user = userId ? await User.findById(userId) : null
+        if (!user) return this.fieldDefResult.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        if (!permissionsCheck(role, user.role)) {
+          return this.roleError(this.fieldDefResult.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), role)
+        }
+      }
 
-    // get all comments
-    getComments: async (page: number, limit: number, { filter, sort }: { filter: ICommentFilter; sort: string } = { filter: {}, sort: "-createdAt" }) => {
-      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
-      // validate page and limit
-      page = ConvertToNaturalNumber(page);
-      limit = ConvertToNaturalNumber(limit);
-  
-      // generate skip
-      const skip = (page - 1) * limit;
-  
       try {
-          // get comments
-          const comments = await this.CommentModel.find(filter).skip(skip).limit(limit).sort(sort);
-  
-          // get total number of comments base on filter
-          const totalComments = await this.CommentModel.countDocuments(filter);
-  
-          // get page data
-          const pageData = getPageData(page, limit, totalComments);
-  
-          // create result
-          const res: IDocumentResult<IComment[]> = {
-              type: EResultTypes.SUCCESS,
-              status: EStatusCodes.SUCCESS,
-              data: comments as IComment[],
-              pageData,
-          }
-  
-          return res
+        let defs
+        if (category && this.CategoryModel) {
+          const categoryDoc = await this.findCategory(category)
+          if (!categoryDoc) return this.fieldDefResult.singleError("category", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+          defs = await this.getFieldDefs([categoryDoc._id])
+        } else {
+          defs = await this.FieldDefModel.find().sort({ name: 1 })
+        }
+
+        // create result
+        const res: IDocumentResult<IFieldDef[]> = {
+          type: EResultTypes.SUCCESS,
+          status: EStatusCodes.SUCCESS,
+          data: defs as IFieldDef[],
+          message: EDocumentMSG.FIELD_DEF_FOUND,
+        }
+
+        return res
       } catch (error) {
-          return handleModelErrors(error);
+        return handleModelErrors(error)
       }
     },
 
-    // create new comment
-    newComment: async (data: IPreComment, userId: string) => {
-      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
-      // check user id
-      const user = await User.findById(userId);
-      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
-  
-      // set user for creating comment
-      data.user = user._id.toString();
-  
+    create: async (data: IPreFieldDef, userId?: string) => {
+      if (!this.FieldDefModel) return new Error("custom fields are disabled")
+
+      // check permissions needed to manage fields
+      const role = this.document.permissions?.advance?.manageFields
+      if (role !== ERole.GEST) {
+        const user = userId ? await User.findById(userId) : null
+        if (!user) return this.fieldDefResult.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        if (!permissionsCheck(role, user.role)) {
+          return this.roleError(this.fieldDefResult.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), role)
+        }
+      }
+
+      // check definition
+      if (!isValidFieldDef(data)) return this.fieldDefResult.singleError("field", EDocumentMSG.INVALID_FIELD_DEF)
+
+      // check if name is used
+      if (await this.FieldDefModel.exists({ name: data.name })) {
+        return this.fieldDefResult.singleError("name", EDocumentMSG.FIELD_DEF_EXISTS, EStatusCodes.CONFLICT)
+      }
+
+      // check if categories of field exist
+      if (data.categories?.length) {
+        const categoryIds = data.categories.filter((id) => mongoose.isValidObjectId(id))
+        const count = categoryIds.length && this.CategoryModel ? await this.CategoryModel.countDocuments({ _id: { $in: categoryIds } }) : 0
+        if (count !== new Set(data.categories.map(String)).size) {
+          return this.fieldDefResult.singleError("categories", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+        }
+      }
+
       try {
-          const comment = await this.CommentModel.create(data);
-  
-          return this.commentResult.success(comment, ECommentMSG.SUCCESS_CREATE, EStatusCodes.SUCCESS_CREATE);
+        const def = await this.FieldDefModel.create(data)
+        return this.fieldDefResult.success(def, EDocumentMSG.SUCCESS_CREATE_FIELD_DEF, EStatusCodes.SUCCESS_CREATE)
       } catch (error) {
-          return handleModelErrors(error);
+        return handleModelErrors(error)
       }
     },
 
-    // edit comment
-    editComment: async (commentId: string, data: Partial<IComment>, editorId: string) => {
-      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
+    edit: async (id: string, data: Partial<IPreFieldDef>, userId?: string) => {
+      if (!this.FieldDefModel) return new Error("custom fields are disabled")
 
-      // check if user exist
-      const user = await User.findById(editorId);
-      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
-  
-      // check user if user is not seller then set state to waiting
-      if (!permissionsCheck(this.document.comments.canVerify.role, user.role)) {
-          // clear state
-          data.state = ECommentState.WAITING;
+      // check permissions needed to manage fields
+      const role = this.document.permissions?.advance?.manageFields
+      if (role !== ERole.GEST) {
+        const user = userId ? await User.findById(userId) : null
+        if (!user) return this.fieldDefResult.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        if (!permissionsCheck(role, user.role)) {
+          return this.roleError(this.fieldDefResult.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), role)
+        }
       }
-  
+
+      // check if definition exist
+      const def = mongoose.isValidObjectId(id) ? await this.FieldDefModel.findById(id) : null
+      if (!def) return this.fieldDefResult.singleError("field", EDocumentMSG.FIELD_DEF_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
+      // check definition with new data
+      if (!isValidFieldDef({ ...def.toObject(), ...data })) return this.fieldDefResult.singleError("field", EDocumentMSG.INVALID_FIELD_DEF)
+
+      // check if new name is used
+      if (data.name && data.name !== def.name && (await this.FieldDefModel.exists({ name: data.name }))) {
+        return this.fieldDefResult.singleError("name", EDocumentMSG.FIELD_DEF_EXISTS, EStatusCodes.CONFLICT)
+      }
+
+      // check if new categories of field exist
+      if (data.categories?.length) {
+        const categoryIds = data.categories.filter((id) => mongoose.isValidObjectId(id))
+        const count = categoryIds.length && this.CategoryModel ? await this.CategoryModel.countDocuments({ _id: { $in: categoryIds } }) : 0
+        if (count !== new Set(data.categories.map(String)).size) {
+          return this.fieldDefResult.singleError("categories", ECategoryMSG.CATEGORY_NOT_FOUND, EStatusCodes.NOT_FOUND)
+        }
+      }
+
       try {
-          const newComment = await this.CommentModel.findByIdAndUpdate(commentId, data, { new: true });
-  
-          // check if comment exist
-          if (!newComment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
-  
-          return this.commentResult.success(newComment, ECommentMSG.SUCCESS_EDIT, EStatusCodes.SUCCESS);
+        // existing values must match new type, options, required flag and categories
+        if (["type", "options", "required", "categories"].some((key) => key in data)) {
+          const error = await this.migrateFieldValues(def.name, { ...def.toObject(), ...data })
+          if (error) return error
+        }
+
+        const newDef = await this.FieldDefModel.findByIdAndUpdate(def.id, data, { new: true, runValidators: true })
+
+        // move values of renamed field
+        if (data.name && data.name !== def.name) {
+          await this.Model.updateMany(
+            { [VARIABLES_FIELD + "." + def.name]: { $exists: true } },
+            { $rename: { [VARIABLES_FIELD + "." + def.name]: VARIABLES_FIELD + "." + data.name } }
+          )
+        }
+
+        return this.fieldDefResult.success(newDef, EDocumentMSG.SUCCESS_EDIT_FIELD_DEF, EStatusCodes.SUCCESS)
       } catch (error) {
-          return handleModelErrors(error);
+        return handleModelErrors(error)
       }
     },
 
-    // delete comments
-    deleteComment: async (commentId: string, editorId: string) => {
-      if(!this.CommentModel || !this.document.comments?.enabled) return new Error("comments are disabled")
-      
-      // check if user exist
-      const user = await User.findById(editorId);
-      if (!user) return this.commentResult.singleError("user", ECommentMSG.USER_NOT_FOUND, EStatusCodes.CONFLICT);
-  
-      const comment = await this.CommentModel.findById(commentId).populate("children");
-  
-      // check if comment exist
-      if (!comment) return this.commentResult.singleError("commentId", ECommentMSG.COMMENT_NOT_FOUND, EStatusCodes.NOT_FOUND);
-  
-      // check editor permission
-      if (user._id.toString() !== comment.user && !permissionsCheck(this.document.comments.canMange, user.role)) {
-          this.commentResult.singleError("editor", ECommentMSG.NO_PERMISSION, EStatusCodes.FORBIDDEN);
+    delete: async (id: string, userId?: string) => {
+      if (!this.FieldDefModel) return new Error("custom fields are disabled")
+
+      // check permissions needed to manage fields
+      const role = this.document.permissions?.advance?.manageFields
+      if (role !== ERole.GEST) {
+        const user = userId ? await User.findById(userId) : null
+        if (!user) return this.fieldDefResult.singleError("user", EDocumentMSG.USER_NOT_FOUND)
+
+        if (!permissionsCheck(role, user.role)) {
+          return this.roleError(this.fieldDefResult.singleError("user", EDocumentMSG.ROLE_REQUIRED, EStatusCodes.FORBIDDEN), role)
+        }
       }
-  
+
+      // check if definition exist
+      const def = mongoose.isValidObjectId(id) ? await this.FieldDefModel.findById(id) : null
+      if (!def) return this.fieldDefResult.singleError("field", EDocumentMSG.FIELD_DEF_NOT_FOUND, EStatusCodes.NOT_FOUND)
+
       try {
-          // delete comment from db
-          await comment.deleteOne();
-  
-          // change state of all comment children
-          if (comment.children) {
-              for (const child of comment.children) {
-                  await this.CommentModel.findByIdAndUpdate(child._id, {state: ECommentState.PARENT_DELETED})
-              }
-          }
-  
-          return this.commentResult.success(comment, ECommentMSG.SUCCESS_DELETE, EStatusCodes.SUCCESS);
+        await def.deleteOne()
+
+        // remove values of field from documents
+        await this.Model.updateMany(
+          { [VARIABLES_FIELD + "." + def.name]: { $exists: true } },
+          { $unset: { [VARIABLES_FIELD + "." + def.name]: 1 } }
+        )
+
+        return this.fieldDefResult.success(def, EDocumentMSG.SUCCESS_DELETE_FIELD_DEF, EStatusCodes.SUCCESS)
       } catch (error) {
-          return handleModelErrors(error);
+        return handleModelErrors(error)
       }
-    }
+    },
   }
 }
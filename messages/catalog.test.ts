@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatMessage, MESSAGE_CATALOGS, translateResult } from "./catalog";
+import { ECategoryMSG } from "./category";
+import { ECommentMSG } from "./comment";
+import { EDocumentMSG } from "./document";
+
+describe("MESSAGE_CATALOGS", () => {
+    it("has text of all message codes in every locale", () => {
+        const codes = [...Object.values(EDocumentMSG), ...Object.values(ECommentMSG), ...Object.values(ECategoryMSG)];
+
+        for (const [locale, catalog] of Object.entries(MESSAGE_CATALOGS)) {
+            assert.deepEqual(
+                codes.filter((code) => catalog[code] === undefined),
+                [],
+                `missing codes in ${locale}`
+            );
+        }
+    });
+});
+
+describe("formatMessage", () => {
+    it("replaces placeholders with params", () => {
+        assert.equal(formatMessage(EDocumentMSG.ROLE_REQUIRED, "en", { role: "admin" }), "no permission, admin role is required");
+    });
+
+    it("replaces placeholders without value with their name", () => {
+        assert.equal(formatMessage(EDocumentMSG.ROLE_REQUIRED, "en"), "no permission, role role is required");
+    });
+
+    it("falls back to default locale and returns undefined for unknown codes", () => {
+        assert.equal(formatMessage(EDocumentMSG.NO_PERMISSION, "xx"), "no permission");
+        assert.equal(formatMessage("unknown.code"), undefined);
+    });
+
+    it("prefers custom catalogs", () => {
+        const catalogs = { en: { [EDocumentMSG.NO_PERMISSION]: "forbidden" } };
+        assert.equal(formatMessage(EDocumentMSG.NO_PERMISSION, "en", {}, catalogs), "forbidden");
+        assert.equal(formatMessage(EDocumentMSG.NO_PERMISSION, "xx", {}, catalogs), "forbidden");
+    });
+});
+
+describe("translateResult", () => {
+    it("adds text to copy of result and its errors", () => {
+        const result = {
+            success: false,
+            message: EDocumentMSG.ROLE_REQUIRED,
+            params: { role: "admin" },
+            errors: [{ field: "title", message: EDocumentMSG.FIELD_REQUIRED }, { field: "x", message: "unknown.code" }],
+        };
+        const translated = translateResult(result, "en") as typeof result & { text: string; errors: { text?: string }[] };
+
+        assert.equal(translated.text, "no permission, admin role is required");
+        assert.equal(translated.errors[0].text, "title is required");
+        assert.equal(translated.errors[1].text, undefined);
+        assert.equal((result as any).text, undefined);
+        assert.equal((result.errors[0] as any).text, undefined);
+    });
+
+    it("keeps data of result", () => {
+        const data = { message: EDocumentMSG.NO_PERMISSION };
+        const translated = translateResult({ message: EDocumentMSG.SUCCESS, data }, "fa") as any;
+
+        assert.equal(translated.data, data);
+        assert.equal(translated.data.text, undefined);
+    });
+
+    it("returns values that are not plain objects", () => {
+        assert.equal(translateResult("text"), "text");
+    });
+});
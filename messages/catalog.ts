@@ -0,0 +1,46 @@
+import { en } from "./locales/en";
+import { fa } from "./locales/fa";
+
+// text of message codes (templates can have {param} placeholders)
+export type TMessageCatalog = Record<string, string>;
+
+export const DEFAULT_MESSAGE_LOCALE = "en";
+
+export const MESSAGE_CATALOGS: Record<string, TMessageCatalog> = { en, fa };
+
+// get text of message code in locale (falls back to default locale, unknown codes return undefined)
+export function formatMessage(
+    code: string,
+    locale: string = DEFAULT_MESSAGE_LOCALE,
+    params: Record<string, unknown> = {},
+    catalogs: Record<string, TMessageCatalog> = {}
+) {
+    const template =
+        catalogs[locale]?.[code] ?? MESSAGE_CATALOGS[locale]?.[code] ?? catalogs[DEFAULT_MESSAGE_LOCALE]?.[code] ?? MESSAGE_CATALOGS[DEFAULT_MESSAGE_LOCALE][code];
+    if (template === undefined) return;
+
+    // placeholders without value are replaced with their name
+    return template.replace(/\{(\w+)\}/g, (_, name) => (params[name] === undefined || params[name] === null ? name : String(params[name])));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// add text of locale to message of result and messages of its errors
+// (result is copied and data of result is not walked, params of result are used by its errors too)
+export function translateResult<T>(result: T, locale: string = DEFAULT_MESSAGE_LOCALE, catalogs: Record<string, TMessageCatalog> = {}): T {
+    if (!isPlainObject(result)) return result;
+
+    const translate = (item: unknown) => {
+        if (!isPlainObject(item) || typeof item.message !== "string") return item;
+
+        const text = formatMessage(item.message, locale, { ...result.params, ...item, ...item.params }, catalogs);
+        return text === undefined ? item : { ...item, text };
+    };
+
+    const translated: Record<string, any> = translate(result) as Record<string, any>;
+    if (Array.isArray(result.errors)) return { ...translated, errors: result.errors.map(translate) } as T;
+
+    return translated as T;
+}
@@ -2,16 +2,20 @@
 import { ECoreMSG } from "@/core/messages/general";
 
 export enum ECategoryMSG {
-    SUCCESS = "category found successfully",
-    SUCCESS_CREATE = "category created successfully",
-    SUCCESS_EDIT = "category edited successfully",
-    SUCCESS_DELETE = "category deleted successfully",
-    CAN_CREATE_CATEGORY = "can not create category",
-    USER_NOT_FOUND = "user not found",
-    CATEGORY_NOT_FOUND = "category not found",
-    EDITOR_NOT_FOUND = "editor not found",
-    NO_PERMISSION = " no permission",
-
+    SUCCESS = "category.success",
+    SUCCESS_CREATE = "category.success_create",
+    SUCCESS_EDIT = "category.success_edit",
+    SUCCESS_DELETE = "category.success_delete",
+    CAN_CREATE_CATEGORY = "category.can_create_category",
+    USER_NOT_FOUND = "category.user_not_found",
+    CATEGORY_NOT_FOUND = "category.category_not_found",
+    EDITOR_NOT_FOUND = "category.editor_not_found",
+    NO_PERMISSION = "category.no_permission",
+    ROLE_REQUIRED = "category.role_required",
+    INVALID_MOTHER = "category.invalid_mother",
+    HAS_CHILDREN = "category.has_children",
+    CAN_NOT_USE_CATEGORY = "category.can_not_use_category",
+    FIELD_NOT_WRITABLE = "category.field_not_writable",
 };
 
 export type CategoryMSG = ECategoryMSG | ECoreMSG
\ No newline at end of file
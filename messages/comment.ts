@@ -2,17 +2,29 @@
 import { ECoreMSG } from "@/core/messages/general";
 
 export enum ECommentMSG {
-    SUCCESS = "comment found successfully",
-    SUCCESS_CREATE = "comment created successfully",
-    SUCCESS_EDIT = "comment edited successfully",
-    SUCCESS_DELETE = "comment deleted successfully",
-    CAN_CREATE_COMMENT = "can not create comment",
-    USER_NOT_FOUND = "user not found",
-    COMMENT_NOT_FOUND = "comment not found",
-    ARTICLE_NOT_FOUND = "article not found",
-    EDITOR_NOT_FOUND = "editor not found",
-    PARENT_NOT_FOUND = "parent not found",
-    NO_PERMISSION = " no permission",
+    SUCCESS = "comment.success",
+    SUCCESS_CREATE = "comment.success_create",
+    SUCCESS_EDIT = "comment.success_edit",
+    SUCCESS_DELETE = "comment.success_delete",
+    CAN_CREATE_COMMENT = "comment.can_create_comment",
+    USER_NOT_FOUND = "comment.user_not_found",
+    COMMENT_NOT_FOUND = "comment.comment_not_found",
+    ARTICLE_NOT_FOUND = "comment.article_not_found",
+    EDITOR_NOT_FOUND = "comment.editor_not_found",
+    PARENT_NOT_FOUND = "comment.parent_not_found",
+    NO_PERMISSION = "comment.no_permission",
+    ROLE_REQUIRED = "comment.role_required",
+    SUCCESS_APPROVE = "comment.success_approve",
+    SUCCESS_REJECT = "comment.success_reject",
+    SUCCESS_MODERATE = "comment.success_moderate",
+    INVALID_STATE = "comment.invalid_state",
+    SUCCESS_REACT = "comment.success_react",
+    SUCCESS_UNREACT = "comment.success_unreact",
+    INVALID_REACTION = "comment.invalid_reaction",
+    REACTION_NOT_FOUND = "comment.reaction_not_found",
+    SUCCESS_RESTORE = "comment.success_restore",
+    SUCCESS_PURGE = "comment.success_purge",
+    COMMENT_NOT_IN_TRASH = "comment.comment_not_in_trash",
 };
 
 export type CommentMSG = ECommentMSG | ECoreMSG
\ No newline at end of file
@@ -1,17 +1,56 @@
 import { ECoreMSG } from "@/core/messages/general";
 
 export enum EDocumentMSG {
-    SUCCESS = "Document found successfully",
-    SUCCESS_CREATE = "Document created successfully",
-    SUCCESS_EDIT = "Document edited successfully",
-    SUCCESS_DELETE = "Document deleted successfully",
-    CAN_CREATE_DOCUMENT = "can not create Document",
-    USER_NOT_FOUND = "user not found",
-    AUTHOR_NOT_FOUND = "author not found",
-    DOCUMENT_NOT_FOUND = "Document not found",
-    EDITOR_NOT_FOUND = "editor not found",
-    NO_PERMISSION = " no permission",
-    NEW_AUTHOR_IS_NOT_VALID = "new author do not have permission to have document"
+    SUCCESS = "document.success",
+    SUCCESS_CREATE = "document.success_create",
+    SUCCESS_EDIT = "document.success_edit",
+    SUCCESS_DELETE = "document.success_delete",
+    CAN_CREATE_DOCUMENT = "document.can_create_document",
+    USER_NOT_FOUND = "document.user_not_found",
+    AUTHOR_NOT_FOUND = "document.author_not_found",
+    DOCUMENT_NOT_FOUND = "document.document_not_found",
+    EDITOR_NOT_FOUND = "document.editor_not_found",
+    NO_PERMISSION = "document.no_permission",
+    ROLE_REQUIRED = "document.role_required",
+    NEW_AUTHOR_IS_NOT_VALID = "document.new_author_is_not_valid",
+    SEARCH_NOT_ENABLED = "document.search_not_enabled",
+    EMPTY_SEARCH_QUERY = "document.empty_search_query",
+    INVALID_FILTER = "document.invalid_filter",
+    EMPTY_BULK_TARGET = "document.empty_bulk_target",
+    FIELD_NOT_FILTERABLE = "document.field_not_filterable",
+    FILTER_OPERATOR_NOT_ALLOWED = "document.filter_operator_not_allowed",
+    FIELD_NOT_SORTABLE = "document.field_not_sortable",
+    INVALID_CURSOR = "document.invalid_cursor",
+    REVISION_NOT_FOUND = "document.revision_not_found",
+    SUCCESS_RESTORE = "document.success_restore",
+    STATE_TRANSITION_NOT_ALLOWED = "document.state_transition_not_allowed",
+    SUCCESS_PURGE = "document.success_purge",
+    DOCUMENT_NOT_IN_TRASH = "document.document_not_in_trash",
+    AUDIT_FOUND = "document.audit_found",
+    FIELD_NOT_WRITABLE = "document.field_not_writable",
+    INVALID_DATA = "document.invalid_data",
+    SUCCESS_BULK = "document.success_bulk",
+    SUCCESS_EXPORT = "document.success_export",
+    SUCCESS_IMPORT = "document.success_import",
+    INVALID_IMPORT_FILE = "document.invalid_import_file",
+    FIELD_REQUIRED = "document.field_required",
+    INVALID_FIELD_TYPE = "document.invalid_field_type",
+    INVALID_FIELD_VALUE = "document.invalid_field_value",
+    SLUG_EXISTS = "document.slug_exists",
+    FIELD_NOT_DEFINED = "document.field_not_defined",
+    FIELD_DEF_FOUND = "document.field_def_found",
+    FIELD_DEF_NOT_FOUND = "document.field_def_not_found",
+    FIELD_DEF_EXISTS = "document.field_def_exists",
+    INVALID_FIELD_DEF = "document.invalid_field_def",
+    FIELD_DEF_CONFLICT = "document.field_def_conflict",
+    SUCCESS_CREATE_FIELD_DEF = "document.success_create_field_def",
+    SUCCESS_EDIT_FIELD_DEF = "document.success_edit_field_def",
+    SUCCESS_DELETE_FIELD_DEF = "document.success_delete_field_def",
+    MISSING_TRANSLATIONS_FOUND = "document.missing_translations_found",
+    RELATION_NOT_FOUND = "document.relation_not_found",
+    DOCUMENT_IS_REFERENCED = "document.document_is_referenced",
+    UNAUTHORIZED = "document.unauthorized",
+    SERVER_ERROR = "document.server_error",
 };
 
 export type DocumentMSG = EDocumentMSG | ECoreMSG
\ No newline at end of file
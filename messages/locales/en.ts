@@ -0,0 +1,91 @@
+import { TMessageCatalog } from "../catalog";
+
+export const en: TMessageCatalog = {
+    "document.success": "Document found successfully",
+    "document.success_create": "Document created successfully",
+    "document.success_edit": "Document edited successfully",
+    "document.success_delete": "Document deleted successfully",
+    "document.can_create_document": "can not create Document",
+    "document.user_not_found": "user not found",
+    "document.author_not_found": "author not found",
+    "document.document_not_found": "Document not found",
+    "document.editor_not_found": "editor not found",
+    "document.no_permission": "no permission",
+    "document.role_required": "no permission, {role} role is required",
+    "document.new_author_is_not_valid": "new author do not have permission to have document",
+    "document.search_not_enabled": "search is not enabled for this Document",
+    "document.empty_search_query": "search query is empty",
+    "document.invalid_filter": "filter is not valid",
+    "document.empty_bulk_target": "select documents with ids or filter, or set all to true to select all documents",
+    "document.field_not_filterable": "{field} is not filterable",
+    "document.filter_operator_not_allowed": "filter operator is not allowed",
+    "document.field_not_sortable": "{field} is not sortable",
+    "document.invalid_cursor": "cursor is not valid",
+    "document.revision_not_found": "revision not found",
+    "document.success_restore": "Document restored successfully",
+    "document.state_transition_not_allowed": "state transition is not allowed",
+    "document.success_purge": "Document purged successfully",
+    "document.document_not_in_trash": "Document is not in trash",
+    "document.audit_found": "audit log found successfully",
+    "document.field_not_writable": "no permission to write {field}",
+    "document.invalid_data": "Document data is not valid",
+    "document.success_bulk": "bulk operation done successfully",
+    "document.success_export": "Documents exported successfully",
+    "document.success_import": "Documents imported successfully",
+    "document.invalid_import_file": "import file is not valid",
+    "document.field_required": "{field} is required",
+    "document.invalid_field_type": "type of {field} is not valid",
+    "document.invalid_field_value": "value of {field} is not valid",
+    "document.slug_exists": "{field} is used by another document",
+    "document.field_not_defined": "{field} is not defined",
+    "document.field_def_found": "field definitions found successfully",
+    "document.field_def_not_found": "field definition not found",
+    "document.field_def_exists": "field definition with this name already exists",
+    "document.invalid_field_def": "field definition is not valid",
+    "document.field_def_conflict": "values of documents don't match field definition",
+    "document.success_create_field_def": "field definition created successfully",
+    "document.success_edit_field_def": "field definition edited successfully",
+    "document.success_delete_field_def": "field definition deleted successfully",
+    "document.missing_translations_found": "missing translations found successfully",
+    "document.relation_not_found": "relation {field} not found",
+    "document.document_is_referenced": "document is used by {field}",
+    "document.unauthorized": "login is required",
+    "document.server_error": "something went wrong, please try again later",
+    "comment.success": "comment found successfully",
+    "comment.success_create": "comment created successfully",
+    "comment.success_edit": "comment edited successfully",
+    "comment.success_delete": "comment deleted successfully",
+    "comment.can_create_comment": "can not create comment",
+    "comment.user_not_found": "user not found",
+    "comment.comment_not_found": "comment not found",
+    "comment.article_not_found": "article not found",
+    "comment.editor_not_found": "editor not found",
+    "comment.parent_not_found": "parent not found",
+    "comment.no_permission": "no permission",
+    "comment.role_required": "no permission, {role} role is required",
+    "comment.success_approve": "comment approved successfully",
+    "comment.success_reject": "comment rejected successfully",
+    "comment.success_moderate": "comments moderated successfully",
+    "comment.invalid_state": "comment state is not valid",
+    "comment.success_react": "reaction saved successfully",
+    "comment.success_unreact": "reaction removed successfully",
+    "comment.invalid_reaction": "reaction is not valid",
+    "comment.reaction_not_found": "reaction not found",
+    "comment.success_restore": "comment restored successfully",
+    "comment.success_purge": "comment purged successfully",
+    "comment.comment_not_in_trash": "comment is not in trash",
+    "category.success": "category found successfully",
+    "category.success_create": "category created successfully",
+    "category.success_edit": "category edited successfully",
+    "category.success_delete": "category deleted successfully",
+    "category.can_create_category": "can not create category",
+    "category.user_not_found": "user not found",
+    "category.category_not_found": "category not found",
+    "category.editor_not_found": "editor not found",
+    "category.no_permission": "no permission",
+    "category.role_required": "no permission, {role} role is required",
+    "category.invalid_mother": "category can not be moved under itself or its sub categories",
+    "category.has_children": "category has sub categories",
+    "category.can_not_use_category": "can not use category",
+    "category.field_not_writable": "no permission to write {field}",
+};
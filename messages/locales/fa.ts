@@ -0,0 +1,91 @@
+import { TMessageCatalog } from "../catalog";
+
+export const fa: TMessageCatalog = {
+    "document.success": "سند با موفقیت پیدا شد",
+    "document.success_create": "سند با موفقیت ساخته شد",
+    "document.success_edit": "سند با موفقیت ویرایش شد",
+    "document.success_delete": "سند با موفقیت حذف شد",
+    "document.can_create_document": "امکان ساخت سند وجود ندارد",
+    "document.user_not_found": "کاربر پیدا نشد",
+    "document.author_not_found": "نویسنده پیدا نشد",
+    "document.document_not_found": "سند پیدا نشد",
+    "document.editor_not_found": "ویرایشگر پیدا نشد",
+    "document.no_permission": "دسترسی ندارید",
+    "document.role_required": "دسترسی ندارید، نقش {role} لازم است",
+    "document.new_author_is_not_valid": "نویسنده جدید اجازه داشتن سند را ندارد",
+    "document.search_not_enabled": "جستجو برای این سند فعال نیست",
+    "document.empty_search_query": "عبارت جستجو خالی است",
+    "document.invalid_filter": "فیلتر معتبر نیست",
+    "document.empty_bulk_target": "اسناد را با شناسه یا فیلتر انتخاب کنید، یا برای انتخاب همه اسناد all را true کنید",
+    "document.field_not_filterable": "فیلتر روی {field} ممکن نیست",
+    "document.filter_operator_not_allowed": "این عملگر فیلتر مجاز نیست",
+    "document.field_not_sortable": "مرتب سازی بر اساس {field} ممکن نیست",
+    "document.invalid_cursor": "نشانگر صفحه معتبر نیست",
+    "document.revision_not_found": "نسخه پیدا نشد",
+    "document.success_restore": "سند با موفقیت بازگردانی شد",
+    "document.state_transition_not_allowed": "تغییر وضعیت مجاز نیست",
+    "document.success_purge": "سند برای همیشه حذف شد",
+    "document.document_not_in_trash": "سند در سطل زباله نیست",
+    "document.audit_found": "گزارش تغییرات با موفقیت پیدا شد",
+    "document.field_not_writable": "اجازه تغییر {field} را ندارید",
+    "document.invalid_data": "اطلاعات سند معتبر نیست",
+    "document.success_bulk": "عملیات گروهی با موفقیت انجام شد",
+    "document.success_export": "اسناد با موفقیت خروجی گرفته شدند",
+    "document.success_import": "اسناد با موفقیت وارد شدند",
+    "document.invalid_import_file": "فایل ورودی معتبر نیست",
+    "document.field_required": "{field} الزامی است",
+    "document.invalid_field_type": "نوع {field} معتبر نیست",
+    "document.invalid_field_value": "مقدار {field} معتبر نیست",
+    "document.slug_exists": "{field} برای سند دیگری استفاده شده است",
+    "document.field_not_defined": "{field} تعریف نشده است",
+    "document.field_def_found": "فیلدهای سفارشی با موفقیت پیدا شدند",
+    "document.field_def_not_found": "فیلد سفارشی پیدا نشد",
+    "document.field_def_exists": "فیلد سفارشی با این نام وجود دارد",
+    "document.invalid_field_def": "تعریف فیلد سفارشی معتبر نیست",
+    "document.field_def_conflict": "مقادیر اسناد با تعریف فیلد سفارشی مطابقت ندارند",
+    "document.success_create_field_def": "فیلد سفارشی با موفقیت ساخته شد",
+    "document.success_edit_field_def": "فیلد سفارشی با موفقیت ویرایش شد",
+    "document.success_delete_field_def": "فیلد سفارشی با موفقیت حذف شد",
+    "document.missing_translations_found": "ترجمه های ناقص با موفقیت پیدا شدند",
+    "document.relation_not_found": "رابطه {field} پیدا نشد",
+    "document.document_is_referenced": "سند توسط {field} استفاده شده است",
+    "document.unauthorized": "ابتدا وارد حساب کاربری شوید",
+    "document.server_error": "خطایی رخ داد، لطفا بعدا دوباره تلاش کنید",
+    "comment.success": "نظر با موفقیت پیدا شد",
+    "comment.success_create": "نظر با موفقیت ثبت شد",
+    "comment.success_edit": "نظر با موفقیت ویرایش شد",
+    "comment.success_delete": "نظر با موفقیت حذف شد",
+    "comment.can_create_comment": "امکان ثبت نظر وجود ندارد",
+    "comment.user_not_found": "کاربر پیدا نشد",
+    "comment.comment_not_found": "نظر پیدا نشد",
+    "comment.article_not_found": "سند پیدا نشد",
+    "comment.editor_not_found": "ویرایشگر پیدا نشد",
+    "comment.parent_not_found": "نظر والد پیدا نشد",
+    "comment.no_permission": "دسترسی ندارید",
+    "comment.role_required": "دسترسی ندارید، نقش {role} لازم است",
+    "comment.success_approve": "نظر با موفقیت تایید شد",
+    "comment.success_reject": "نظر با موفقیت رد شد",
+    "comment.success_moderate": "نظرات با موفقیت بررسی شدند",
+    "comment.invalid_state": "وضعیت نظر معتبر نیست",
+    "comment.success_react": "واکنش با موفقیت ثبت شد",
+    "comment.success_unreact": "واکنش با موفقیت حذف شد",
+    "comment.invalid_reaction": "واکنش معتبر نیست",
+    "comment.reaction_not_found": "واکنش پیدا نشد",
+    "comment.success_restore": "نظر با موفقیت بازگردانی شد",
+    "comment.success_purge": "نظر برای همیشه حذف شد",
+    "comment.comment_not_in_trash": "نظر در سطل زباله نیست",
+    "category.success": "دسته بندی با موفقیت پیدا شد",
+    "category.success_create": "دسته بندی با موفقیت ساخته شد",
+    "category.success_edit": "دسته بندی با موفقیت ویرایش شد",
+    "category.success_delete": "دسته بندی با موفقیت حذف شد",
+    "category.can_create_category": "امکان ساخت دسته بندی وجود ندارد",
+    "category.user_not_found": "کاربر پیدا نشد",
+    "category.category_not_found": "دسته بندی پیدا نشد",
+    "category.editor_not_found": "ویرایشگر پیدا نشد",
+    "category.no_permission": "دسترسی ندارید",
+    "category.role_required": "دسترسی ندارید، نقش {role} لازم است",
+    "category.invalid_mother": "دسته بندی را نمی توان زیر خودش یا زیر دسته هایش قرار داد",
+    "category.has_children": "دسته بندی زیر دسته دارد",
+    "category.can_not_use_category": "امکان استفاده از دسته بندی وجود ندارد",
+    "category.field_not_writable": "اجازه تغییر {field} را ندارید",
+};
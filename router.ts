@@ -0,0 +1,212 @@
+import Doc from "./index";
+import { ECommentSort, EPaginationModes, ETransferFormats, IDocOperation, IRouteInput, IRouteRequest, IRouteResponse, TAuthResolver, TLocaleResolver, TRouterLike, TUpsertKey } from "./types/general";
+import { getDocOperations } from "./helpers/openapi";
+import { UPSERT_KEYS } from "./helpers/transfer";
+import { EDocumentMSG } from "./messages/document";
+
+const BAD_REQUEST = 400;
+const UNAUTHORIZED = 401;
+const NOT_FOUND = 404;
+const SERVER_ERROR = 500;
+
+// allowed values of enum query params of operations
+const QUERY_ENUMS: Record<string, Record<string, string[]>> = {
+    getAll: { pagination: Object.values(EPaginationModes) },
+    export: { format: Object.values(ETransferFormats) },
+    import: { format: Object.values(ETransferFormats), upsertBy: UPSERT_KEYS },
+    "Comment.getDocumentComments": { sort: Object.values(ECommentSort) },
+    "Comment.getThread": { sort: Object.values(ECommentSort) },
+};
+
+// operations that can't be called without user
+const AUTH_REQUIRED = new Set([
+    "Comment.getModerationQueue",
+    "Comment.bulkModerate",
+    "Comment.getMyReactions",
+    "Comment.newComment",
+    "Comment.editComment",
+    "Comment.deleteComment",
+    "Comment.approve",
+    "Comment.reject",
+    "Comment.react",
+    "Comment.unreact",
+    "Comment.restore",
+    "Comment.purge",
+]);
+
+type TOperationHandler = (doc: Doc<any, any>, input: IRouteInput) => Promise<unknown>;
+
+// split comma separated query value
+function toList(value: unknown) {
+    if (Array.isArray(value)) return value.map(String);
+    return typeof value === "string" && value ? value.split(",") : undefined;
+}
+
+function toNumber(value: unknown) {
+    return value === undefined || value === "" ? undefined : Number(value);
+}
+
+function toBoolean(value: unknown) {
+    return value === true || value === "true" || value === "1";
+}
+
+// call Doc method of every operation with values of request
+const HANDLERS: Record<string, TOperationHandler> = {
+    getAll: (doc, { page, limit, sort, filter, userId, query }) =>
+        doc.getAll(page, limit, {
+            sort,
+            userId,
+            filter,
+            category: query.category as string | undefined,
+            includeDescendants: toBoolean(query.includeDescendants),
+            pagination: query.pagination as EPaginationModes | undefined,
+            cursor: query.cursor as string | undefined,
+            locale: query.locale as string | undefined,
+            fallback: toList(query.fallback),
+            include: toList(query.include),
+        }),
+    search: (doc, { page, limit, userId, query }) =>
+        doc.search(String(query.q ?? ""), page, limit, { userId, locale: query.locale as string | undefined, fallback: toList(query.fallback) }),
+    export: (doc, { filter, userId, query }) =>
+        doc.export(query.format as ETransferFormats | undefined, { filter, userId, includeComments: toBoolean(query.includeComments) }),
+    import: (doc, { body, userId, query }) =>
+        doc.import(typeof body === "string" ? body : body?.content, query.format as ETransferFormats | undefined, {
+            userId,
+            upsertBy: query.upsertBy as TUpsertKey | undefined,
+            dryRun: toBoolean(query.dryRun),
+        }),
+    bulkCreate: (doc, { body, userId }) => doc.bulkCreate(Array.isArray(body) ? body : body?.items ?? [], userId),
+    bulkEdit: (doc, { body, userId }) => doc.bulkEdit(body?.target, body?.patch, userId),
+    bulkDelete: (doc, { body, userId }) => doc.bulkDelete(body?.target, userId),
+    create: (doc, { body, userId }) => doc.create(body, userId),
+    getOne: (doc, { params, userId, query }) => doc.getOne(params.identity, userId, { locale: query.locale as string | undefined, fallback: toList(query.fallback), include: toList(query.include) }),
+    getMissingTranslations: (doc, { params, userId }) => doc.getMissingTranslations(params.identity, userId),
+    edit: (doc, { params, body, userId }) => doc.edit(params.identity, body, userId),
+    delete: (doc, { params, userId }) => doc.delete(params.identity, userId),
+    getTrash: (doc, { page, limit, userId }) => doc.getTrash(page, limit, userId),
+    restore: (doc, { params, userId }) => doc.restore(params.identity, userId),
+    purge: (doc, { params, userId }) => doc.purge(params.identity, userId),
+
+    "Revision.getAll": (doc, { params, page, limit, userId }) => doc.Revision.getAll(params.identity, page, limit, userId),
+    "Revision.diff": (doc, { params, query, userId }) => doc.Revision.diff(params.identity, Number(query.from), Number(query.to), userId),
+    "Revision.restore": (doc, { params, userId }) => doc.Revision.restore(params.identity, Number(params.version), userId),
+
+    "Comment.getComments": (doc, { page, limit, filter, sort, userId }) => doc.Comment.getComments(page, limit, { filter, sort: sort?.[0], userId }),
+    "Comment.getModerationQueue": (doc, { page, limit, userId }) => doc.Comment.getModerationQueue(page, limit, userId!),
+    "Comment.bulkModerate": (doc, { body, userId }) => doc.Comment.bulkModerate(body?.ids ?? [], body?.state, userId!, body?.reason),
+    "Comment.getMyReactions": (doc, { query, userId }) => doc.Comment.getMyReactions(toList(query.ids) ?? [], userId!),
+    "Comment.newComment": (doc, { body, userId }) => doc.Comment.newComment(body, userId!),
+    "Comment.getComment": (doc, { params, userId }) => doc.Comment.getComment(params.id, userId),
+    "Comment.editComment": (doc, { params, body, userId }) => doc.Comment.editComment(params.id, body, userId!),
+    "Comment.deleteComment": (doc, { params, userId }) => doc.Comment.deleteComment(params.id, userId!),
+    "Comment.getReplies": (doc, { params, page, limit, query, userId }) => doc.Comment.getReplies(params.id, page, limit, toNumber(query.maxDepth), userId),
+    "Comment.approve": (doc, { params, userId }) => doc.Comment.approve(params.id, userId!),
+    "Comment.reject": (doc, { params, body, userId }) => doc.Comment.reject(params.id, userId!, body?.reason),
+    "Comment.react": (doc, { params, body, userId }) => doc.Comment.react(params.id, body?.type, userId!),
+    "Comment.unreact": (doc, { params, userId }) => doc.Comment.unreact(params.id, userId!),
+    "Comment.restore": (doc, { params, userId }) => doc.Comment.restore(params.id, userId!),
+    "Comment.purge": (doc, { params, userId }) => doc.Comment.purge(params.id, userId!),
+    "Comment.getDocumentComments": (doc, { params, page, limit, query, userId }) =>
+        doc.Comment.getDocumentComments(params.identity, page, limit, query.sort as ECommentSort | undefined, userId),
+    "Comment.getThread": (doc, { params, page, limit, query, userId }) =>
+        doc.Comment.getThread(params.identity, page, limit, toNumber(query.maxDepth), query.sort as ECommentSort | undefined, userId),
+
+    "Category.getAll": (doc, { page, limit, sort, userId }) => doc.Category.getAll(page, limit, { sort, userId }),
+    "Category.getTree": (doc, { userId }) => doc.Category.getTree(userId),
+    "Category.create": (doc, { body, userId }) => doc.Category.create(body, userId),
+    "Category.getOne": (doc, { params, userId }) => doc.Category.getOne(params.identity, userId),
+    "Category.getPath": (doc, { params, userId }) => doc.Category.getPath(params.identity, userId),
+    "Category.getWithDocuments": (doc, { params, page, limit, userId }) => doc.Category.getWithDocuments(params.identity, page, limit, userId),
+    "Category.edit": (doc, { params, body, userId }) => doc.Category.edit(params.identity, body, userId),
+    "Category.delete": (doc, { params, userId }) => doc.Category.delete(params.identity, userId),
+
+    "FieldDef.getAll": (doc, { query, userId }) => doc.FieldDef.getAll({ category: query.category as string | undefined, userId }),
+    "FieldDef.create": (doc, { body, userId }) => doc.FieldDef.create(body, userId),
+    "FieldDef.edit": (doc, { params, body, userId }) => doc.FieldDef.edit(params.id, body, userId),
+    "FieldDef.delete": (doc, { params, userId }) => doc.FieldDef.delete(params.id, userId),
+
+    "Audit.getAll": (doc, { page, limit, filter, userId }) => doc.Audit.getAll(page, limit, { filter, userId }),
+};
+
+// get locale from lang query or first language of Accept-Language header
+function defaultLocale(req: IRouteRequest) {
+    if (typeof req.query.lang === "string") return req.query.lang;
+
+    const header = req.headers?.["accept-language"];
+    const language = (Array.isArray(header) ? header[0] : header)?.split(",")[0]?.split(";")[0]?.trim();
+    return language ? language.split("-")[0].toLowerCase() : undefined;
+}
+
+// convert result of Doc method to http response
+function sendResult(res: IRouteResponse, result: any) {
+    // disabled features return bare errors
+    if (result instanceof Error) return res.status(NOT_FOUND).json({ status: NOT_FOUND, message: result.message });
+
+    const status = typeof result?.status === "number" ? result.status : SERVER_ERROR;
+    return res.status(status).json(result);
+}
+
+// mount REST routes of Doc on router (static paths are mounted before paths with params)
+export function createDocRouter<R extends TRouterLike>(
+    doc: Doc<any, any>,
+    router: R,
+    { resolveUserId = () => undefined, resolveLocale = defaultLocale }: { resolveUserId?: TAuthResolver; resolveLocale?: TLocaleResolver } = {}
+) {
+    const operations = [...getDocOperations(doc.document)].sort(
+        (a, b) => a.path.split("{").length - b.path.split("{").length
+    );
+
+    for (const operation of operations) {
+        const handler = HANDLERS[operation.name];
+        if (!handler) continue;
+
+        router[operation.method](toRoutePath(operation), async (req: IRouteRequest, res: IRouteResponse) => {
+            // parse filter of query
+            let filter;
+            if (req.query.filter !== undefined) {
+                try {
+                    filter = typeof req.query.filter === "string" ? JSON.parse(req.query.filter) : req.query.filter;
+                } catch {
+                    return res.status(BAD_REQUEST).json(doc.translate({ status: BAD_REQUEST, message: EDocumentMSG.INVALID_FILTER }, resolveLocale(req)));
+                }
+            }
+
+            // check values of enum query params
+            const invalidQuery = Object.entries(QUERY_ENUMS[operation.name] ?? {}).find(
+                ([name, values]) => req.query[name] !== undefined && !values.includes(req.query[name] as string)
+            );
+            if (invalidQuery) {
+                return res.status(BAD_REQUEST).json(doc.translate(doc.result.singleError(invalidQuery[0], EDocumentMSG.INVALID_FIELD_VALUE, BAD_REQUEST), resolveLocale(req)));
+            }
+
+            try {
+                const input: IRouteInput = {
+                    params: req.params,
+                    query: req.query,
+                    body: req.body,
+                    userId: await resolveUserId(req),
+                    page: toNumber(req.query.page) ?? 1,
+                    limit: toNumber(req.query.limit) ?? 10,
+                    sort: toList(req.query.sort),
+                    filter,
+                };
+
+                if (AUTH_REQUIRED.has(operation.name) && !input.userId) {
+                    return res.status(UNAUTHORIZED).json(doc.translate({ status: UNAUTHORIZED, message: EDocumentMSG.UNAUTHORIZED }, resolveLocale(req)));
+                }
+
+                return sendResult(res, doc.translate(await handler(doc, input), resolveLocale(req)));
+            } catch {
+                // details of unexpected errors are not sent to clients
+                return res.status(SERVER_ERROR).json(doc.translate({ status: SERVER_ERROR, message: EDocumentMSG.SERVER_ERROR }, resolveLocale(req)));
+            }
+        });
+    }
+
+    return router;
+}
+
+// convert openapi path to express path
+function toRoutePath(operation: IDocOperation) {
+    return operation.path.replace(/\{(\w+)\}/g, ":$1");
+}
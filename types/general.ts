@@ -1,6 +1,6 @@
 import { IResultType } from "@/core/types/general";
 import { ERole } from "@/core/types/user";
-import { IndexDefinition, SchemaDefinitionProperty, Types } from "mongoose";
+import { Document, IndexDefinition, SchemaDefinitionProperty, Types } from "mongoose";
 import { DocumentMSG } from "../messages/document";
 import { TypedResult } from "@/core/types/Result";
 import { CommentMSG } from "../messages/comment";
@@ -29,9 +29,26 @@ export interface IDocOptions {
                 role:ERole,
                 public:boolean
             };
+            getRevisions?: ERole;
+            getTrash?: ERole;
+            readPrivate?: ERole;
+            restore?: {
+                role:ERole,
+                public:boolean
+            };
+            purge?: {
+                role:ERole,
+                public:boolean
+            };
+            manageFields?: ERole;
         };
     };
+    fieldPermissions?: Record<string, {
+        read?: ERole;
+        write?: ERole;
+    }>;
     sortFields?: string[];
+    filterFields?: string[];
     options?: {
         private_option?: boolean;
         variable_data?: boolean;
@@ -41,10 +58,18 @@ export interface IDocOptions {
         canWrite: ERole;
         needToVerify: boolean;
         canVerify: {role: ERole, public:boolean};
-        canMange: ERole
+        canMange: ERole;
+        reverifyOnEdit?: boolean;
+        maxDepth?: number;
+        reactions?: {
+            enabled: boolean;
+            types?: string[];
+            canReact?: ERole;
+        };
     };
     category?: {
         enabled: boolean;
+        onDelete?: ECategoryDeletePolicy;
         permissions?: {
             read?: ERole;
             write?: ERole;
@@ -56,32 +81,250 @@ export interface IDocOptions {
                 use?: {role: ERole, public:boolean};
                 edit?: {role: ERole, public:boolean};
                 delete?: {role: ERole, public:boolean};
+                // users with this role can change author of categories
+                manage?: ERole;
             };
         };
     };
+    lifecycle?: {
+        defaultState?: EStates;
+        transitions?: TStateTransitions;
+    };
+    softDelete?: {
+        enabled: boolean;
+    };
+    versioning?: {
+        enabled: boolean;
+        maxRevisions?: number;
+    };
+    hooks?: TDocHooks;
+    audit?: {
+        enabled: boolean;
+        retentionDays?: number;
+        canRead?: ERole;
+    };
+    // fields of databaseSchema with "translatable: true" have value per locale
+    i18n?: {
+        locales: string[];
+        defaultLocale: string;
+    };
+    // locale of result messages and custom message catalogs (code to text template per locale)
+    messages?: {
+        locale?: string;
+        catalogs?: Record<string, Record<string, string>>;
+    };
+    // relations to documents of other Docs (name of relation to its options)
+    relations?: Record<string, IRelation>;
     indexing?: IndexDefinition[];
     searchOn?: string[];
 }
 
 export type TMongooseSchema = Record<string, SchemaDefinitionProperty<any>>
 
+export enum EVisibility {
+    PUBLIC = "public",
+    PRIVATE = "private",
+    SHARED = "shared",
+}
+
+export interface ISharedWith {
+    users?: string[],
+    roles?: ERole[],
+}
+
 export enum EStates {
     PUBLISHED = "published",
     DRAFT = "draft",
+    PENDING_REVIEW = "pending_review",
+    ARCHIVED = "archived",
 }
 
+// roles that can move document from one state to another
+export type TStateTransitions = Partial<Record<EStates, Partial<Record<EStates, ERole>>>>
+
 export interface IDocumentResult<IModel> extends IResultType {
     data?:IModel,
-    message?:DocumentMSG | CommentMSG | CategoryMSG
+    message?:DocumentMSG | CommentMSG | CategoryMSG,
+    // values of placeholders in text of message (like required role)
+    params?:Record<string, unknown>,
+    // text of message in selected locale
+    text?:string,
+    // document is found by old slug (frontend can redirect to new slug)
+    moved?:{ from: string, to: string },
+    nextCursor?:string | null,
+    prevCursor?:string | null,
 }
 
 export class DocumentResult<IModel> extends TypedResult<IDocumentResult<IModel>, IModel, DocumentMSG | CommentMSG | CategoryMSG> {}
 
+export enum EPaginationModes {
+    OFFSET = "offset",
+    CURSOR = "cursor",
+}
+
+// hooks and events ---------------
+// before hooks can veto operation by returning error result
+export type TBeforeHookResult = IDocumentResult<unknown> | void
+
+export interface IDocHooks<IPreModel = any, IModel = any> {
+    beforeCreate: (data: IPreModel, user: any) => TBeforeHookResult | Promise<TBeforeHookResult>,
+    afterCreate: (doc: IModel, user: any) => void | Promise<void>,
+    beforeEdit: (doc: IModel, data: Partial<IModel>, user: any) => TBeforeHookResult | Promise<TBeforeHookResult>,
+    afterEdit: (doc: IModel, user: any) => void | Promise<void>,
+    beforeDelete: (doc: IModel, user: any) => TBeforeHookResult | Promise<TBeforeHookResult>,
+    afterDelete: (doc: IModel, user: any) => void | Promise<void>,
+    beforeComment: (data: IPreComment, user: any) => TBeforeHookResult | Promise<TBeforeHookResult>,
+    afterComment: (comment: IComment, user: any) => void | Promise<void>,
+}
+
+export type TDocHooks<IPreModel = any, IModel = any> = {
+    [K in keyof IDocHooks<IPreModel, IModel>]?: IDocHooks<IPreModel, IModel>[K] | IDocHooks<IPreModel, IModel>[K][]
+}
+
+export enum EDocEvents {
+    DOCUMENT_CREATED = "document.created",
+    DOCUMENT_EDITED = "document.edited",
+    DOCUMENT_DELETED = "document.deleted",
+    DOCUMENT_RESTORED = "document.restored",
+    DOCUMENT_PURGED = "document.purged",
+    COMMENT_CREATED = "comment.created",
+    COMMENT_EDITED = "comment.edited",
+    COMMENT_DELETED = "comment.deleted",
+    COMMENT_WAITING = "comment.waiting",
+    COMMENT_ACCEPTED = "comment.accepted",
+    COMMENT_REJECTED = "comment.rejected",
+    COMMENT_RESTORED = "comment.restored",
+    COMMENT_PURGED = "comment.purged",
+    CATEGORY_CREATED = "category.created",
+    CATEGORY_EDITED = "category.edited",
+    CATEGORY_DELETED = "category.deleted",
+    // error of after hook, event listener, revision or audit log (operation itself succeeded)
+    ERROR = "doc.error",
+}
+
+export interface IDocEvent<IData = any> {
+    docName: string,
+    data: IData,
+    userId?: string,
+}
+
+// bulk operations ---------------
+export interface IBulkItemResult {
+    index?: number,
+    id?: string,
+    message: DocumentMSG | CommentMSG | CategoryMSG,
+    error?: unknown,
+}
+
+export interface IBulkResult {
+    succeeded: IBulkItemResult[],
+    failed: IBulkItemResult[],
+}
+
+// bulk operations target list of ids or documents matching filter
+// ids, filter or all documents (all documents are only selected with all: true, not with empty filter)
+export type TBulkTarget = string[] | IDocumentFilter | { all: true }
+
+// import/export ---------------
+// formats and keys are kept in own module so transfer helpers don't depend on core
+export * from "./transfer"
+
+export interface IImportResult {
+    created: IBulkItemResult[],
+    updated: IBulkItemResult[],
+    failed: IBulkItemResult[],
+    dryRun: boolean,
+}
+
+// json schema / openapi ---------------
+export type TPayloadMode = "create" | "edit"
+
+export interface IJsonSchema {
+    type?: "string" | "number" | "boolean" | "array" | "object",
+    format?: string,
+    enum?: unknown[],
+    minimum?: number,
+    maximum?: number,
+    minLength?: number,
+    maxLength?: number,
+    pattern?: string,
+    default?: unknown,
+    description?: string,
+    items?: IJsonSchema,
+    properties?: Record<string, IJsonSchema>,
+    required?: string[],
+    additionalProperties?: IJsonSchema | boolean,
+    allOf?: IJsonSchema[],
+    $ref?: string,
+}
+
+export interface IDocOperation {
+    // path of method on Doc (like "getAll" or "Comment.newComment")
+    name: string,
+    method: "get" | "post" | "patch" | "put" | "delete",
+    path: string,
+    tag: "documents" | "comments" | "categories" | "audit",
+    summary: string,
+    params?: string[],
+    query?: string[],
+    body?: string,
+    response?: string,
+    list?: boolean,
+}
+
+// http router ---------------
+// minimal request and response of express like frameworks
+export interface IRouteRequest {
+    params: Record<string, string>,
+    query: Record<string, unknown>,
+    body?: any,
+    headers?: Record<string, string | string[] | undefined>,
+}
+
+export interface IRouteResponse {
+    status: (code: number) => IRouteResponse,
+    json: (body: unknown) => unknown,
+}
+
+export type TRouteHandler = (req: IRouteRequest, res: IRouteResponse) => Promise<unknown>
+
+export type TRouterLike = Record<IDocOperation["method"], (path: string, handler: TRouteHandler) => unknown>
+
+// get id of logged in user from request
+export type TAuthResolver = (req: IRouteRequest) => string | undefined | Promise<string | undefined>
+
+// get locale of result messages from request
+export type TLocaleResolver = (req: IRouteRequest) => string | undefined
+
+export interface IRouteInput {
+    params: Record<string, string>,
+    query: Record<string, unknown>,
+    body: any,
+    userId?: string,
+    page: number,
+    limit: number,
+    sort?: string[],
+    filter?: any,
+}
+
+// filters ---------------
+export type TFilterOperator = "eq" | "ne" | "in" | "gt" | "gte" | "lt" | "lte" | "exists" | "regex"
+
+export type TFilterValue = string | number | boolean | null | Date
+
+export type TFilterCondition = TFilterValue | TFilterValue[] | Partial<Record<TFilterOperator, TFilterValue | TFilterValue[]>>
+
+export interface IDocumentFilter {
+    and?: IDocumentFilter[],
+    or?: IDocumentFilter[],
+    [field: string]: TFilterCondition | IDocumentFilter[] | undefined
+}
+
 // comments ---------------
 export interface ICommentFilter {
     user?:string,
     state?:string,
-    article?:string
+    document?:string
 }
 
 export enum ECommentState {
@@ -102,7 +345,196 @@ export interface IPreComment {
 export interface IComment extends IPreComment{
     _id: Types.ObjectId
     state: ECommentState,
+    rejectReason?: string,
+    moderatedBy?: Types.ObjectId,
+    moderatedAt?: Date,
+    reactionCounts?: Record<string, number>,
+    score?: number,
+    rank?: number,
     children?: IComment[]
 }
 
+export enum ECommentSort {
+    NEWEST = "newest",
+    SCORE = "score",
+    BEST = "best",
+}
+
+export interface ICommentReaction {
+    _id: Types.ObjectId
+    comment: Types.ObjectId,
+    user: Types.ObjectId,
+    type: string,
+}
+
+export interface ICommentThread extends IComment{
+    children: ICommentThread[],
+    repliesCount: number,
+    hasMoreReplies: boolean
+}
+
+export interface IBulkModerateResult {
+    moderated: string[],
+    failed: { id: string, message: CommentMSG }[]
+}
+
 export interface IOptComment extends Partial<Omit<IComment, "document" | "user">> {}
+
+// custom fields ---------------
+export enum EFieldTypes {
+    STRING = "string",
+    NUMBER = "number",
+    BOOLEAN = "boolean",
+    DATE = "date",
+    ENUM = "enum",
+    REFERENCE = "reference",
+}
+
+export interface IPreFieldDef {
+    name: string,
+    label?: string,
+    type: EFieldTypes,
+    required?: boolean,
+    // allowed values of enum fields
+    options?: string[],
+    // model name of reference fields
+    ref?: string,
+    // field is only used for documents of these categories (all documents when empty)
+    categories?: string[],
+    filterable?: boolean,
+    sortable?: boolean,
+}
+
+export interface IFieldDef extends IPreFieldDef {
+    _id: Types.ObjectId,
+    createdAt: Date,
+    updatedAt: Date,
+}
+
+// categories ---------------
+export interface IPreCategory {
+    name:string,
+    des?:string,
+    mother?:string,
+    authorId?:string,
+    // slug that is set by hand is locked
+    slug?:string,
+    slugLocked?:boolean,
+}
+
+export interface ICategory extends IPreCategory{
+    _id: Types.ObjectId
+    slug: string,
+    slugHistory: string[],
+}
+
+export interface ICategoryTree extends ICategory{
+    children: ICategoryTree[]
+}
+
+export enum ECategoryDeletePolicy {
+    REPARENT = "reparent",
+    CASCADE = "cascade",
+    BLOCK = "block",
+}
+
+// relations ---------------
+export enum ERelationTypes {
+    ONE = "one",
+    MANY = "many",
+}
+
+export enum ERelationDeletePolicy {
+    RESTRICT = "restrict",
+    CASCADE = "cascade",
+    NULLIFY = "nullify",
+}
+
+export interface IRelation {
+    // docName of target Doc
+    target: string,
+    type: ERelationTypes,
+    // field of this document that keeps id(s) of target documents
+    field?: string,
+    // field of target documents that keeps id of this document (reverse lookup)
+    foreignField?: string,
+    // what happens to documents that keep the id when referenced document is deleted
+    // (cascade is not allowed for many relations with field, deleting one target would delete whole document)
+    onDelete?: ERelationDeletePolicy,
+}
+
+// document that relations are added to (mongoose document or plain object)
+export interface IRelatedDocument {
+    _id: Types.ObjectId,
+    toObject?: () => Record<string, unknown>,
+    [field: string]: unknown,
+}
+
+// change of related documents when documents are deleted
+export interface IRelatedChange<TDoc> {
+    // Doc of related documents
+    doc: TDoc,
+    // field of related documents that keeps ids of deleted documents
+    field: string,
+    deletedIds: Types.ObjectId[],
+    onDelete: ERelationDeletePolicy,
+    docs: Document<Types.ObjectId>[],
+}
+
+// revisions ---------------
+export interface IRevision {
+    _id: Types.ObjectId
+    document: Types.ObjectId,
+    version: number,
+    editor?: Types.ObjectId,
+    snapshot: Record<string, any>,
+    changedFields: string[],
+    createdAt: Date,
+}
+
+export type IRevisionDiff = Record<string, { from: unknown, to: unknown }>
+
+// audit ---------------
+export enum EAuditActions {
+    DOCUMENT_CREATE = "document.create",
+    DOCUMENT_EDIT = "document.edit",
+    DOCUMENT_DELETE = "document.delete",
+    DOCUMENT_RESTORE = "document.restore",
+    DOCUMENT_PURGE = "document.purge",
+    COMMENT_APPROVE = "comment.approve",
+    COMMENT_REJECT = "comment.reject",
+    COMMENT_MODERATE = "comment.moderate",
+    COMMENT_RESTORE = "comment.restore",
+    COMMENT_PURGE = "comment.purge",
+    CATEGORY_CREATE = "category.create",
+    CATEGORY_EDIT = "category.edit",
+    CATEGORY_DELETE = "category.delete",
+}
+
+export interface IAuditTarget {
+    actorId?: string,
+    targets?: string[],
+    changedFields?: string[],
+}
+
+export interface IAuditEntry {
+    _id: Types.ObjectId
+    actor?: Types.ObjectId,
+    role?: ERole,
+    action: EAuditActions,
+    target?: string,
+    changedFields: string[],
+    succeeded: boolean,
+    status: number,
+    message?: DocumentMSG | CommentMSG | CategoryMSG,
+    createdAt: Date,
+}
+
+export interface IAuditFilter {
+    actor?: string,
+    action?: EAuditActions,
+    target?: string,
+    succeeded?: boolean | string,
+    from?: Date | string,
+    to?: Date | string,
+}
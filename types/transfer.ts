@@ -0,0 +1,7 @@
+export enum ETransferFormats {
+    JSONL = "jsonl",
+    CSV = "csv",
+}
+
+// field that finds existing documents on import
+export type TUpsertKey = "slug" | "_id"